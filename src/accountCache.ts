@@ -0,0 +1,206 @@
+/**
+ * Copyright (c) 2024 John Jung
+ *
+ * Persistent account cache.
+ *
+ * Accounts are cached per workspace and status (active, churned or
+ * activeOrChurned) in a JSON file each, so a restarted server doesn't have
+ * to crawl every page of /resources/accounts again, and listing churned
+ * accounts never replaces the active accounts used for lookups. Entries
+ * expire after a TTL, after which only accounts changed since the last sync
+ * (by `updatedAt`) are pulled and merged in. A full sync is still done
+ * periodically to pick up deleted accounts.
+ *
+ * Configured with:
+ *   VITALLY_CACHE_DIR              directory for cache files, or 'off' to keep it in memory only
+ *   VITALLY_CACHE_TTL_MINUTES      how long a sync is considered fresh (default: 60)
+ *   VITALLY_CACHE_FULL_SYNC_HOURS  how often to do a full resync (default: 24)
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { logger } from './logger.js';
+
+export interface CachedAccount {
+  id: string;
+  updatedAt?: string;
+  churnedAt?: string;
+}
+
+export interface AccountCacheEntry<A extends CachedAccount> {
+  workspace: string;
+  status: string;
+  complete: boolean;
+  lastFullSyncAt: string;
+  lastSyncAt: string;
+  accounts: A[];
+}
+
+export interface AccountCacheOptions {
+  dir: string | null;
+  ttlMs: number;
+  fullSyncMs: number;
+}
+
+// Version 1 files held one entry per workspace, whatever its status
+const CACHE_FILE_VERSION = 2;
+
+// Accounts updated shortly before the last sync are pulled again, in case
+// of clock skew between us and Vitally
+const SYNC_OVERLAP_MS = 60 * 1000;
+
+/**
+ * Read cache settings from the environment
+ */
+export function accountCacheOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): AccountCacheOptions {
+  const dir = env.VITALLY_CACHE_DIR === undefined || env.VITALLY_CACHE_DIR === ''
+    ? path.join(os.homedir(), '.vitally-mcp', 'cache')
+    : env.VITALLY_CACHE_DIR;
+
+  const ttlMinutes = Number(env.VITALLY_CACHE_TTL_MINUTES || 60);
+  const fullSyncHours = Number(env.VITALLY_CACHE_FULL_SYNC_HOURS || 24);
+
+  return {
+    dir: dir.toLowerCase() === 'off' ? null : path.resolve(dir),
+    ttlMs: (Number.isFinite(ttlMinutes) ? ttlMinutes : 60) * 60 * 1000,
+    fullSyncMs: (Number.isFinite(fullSyncHours) ? fullSyncHours : 24) * 60 * 60 * 1000
+  };
+}
+
+/**
+ * Path of the cache file for a workspace's accounts of one status, or null
+ * when persistence is off
+ */
+export function cacheFilePath(options: AccountCacheOptions, workspace: string, status: string): string | null {
+  return options.dir ? path.join(options.dir, `accounts-${workspace}-${status}.json`) : null;
+}
+
+/**
+ * Load a workspace's cache entry for a status from disk. A missing,
+ * unreadable or outdated file is treated as an empty cache.
+ */
+export function readCacheFile<A extends CachedAccount>(
+  options: AccountCacheOptions,
+  workspace: string,
+  status: string
+): AccountCacheEntry<A> | undefined {
+  const file = cacheFilePath(options, workspace, status);
+  if (!file || !fs.existsSync(file)) {
+    return undefined;
+  }
+
+  try {
+    const data = JSON.parse(fs.readFileSync(file, 'utf8'));
+    if (data.version !== CACHE_FILE_VERSION || data.entry?.status !== status || !Array.isArray(data.entry?.accounts)) {
+      return undefined;
+    }
+    return data.entry as AccountCacheEntry<A>;
+  } catch (error) {
+    logger.warning(`ignoring unreadable account cache ${file}: ${error}`);
+    return undefined;
+  }
+}
+
+/**
+ * Write a workspace's cache entry to disk. Partial entries (a single page)
+ * are never persisted.
+ */
+export function writeCacheFile<A extends CachedAccount>(options: AccountCacheOptions, entry: AccountCacheEntry<A>): void {
+  const file = cacheFilePath(options, entry.workspace, entry.status);
+  if (!file || !entry.complete) {
+    return;
+  }
+
+  try {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    // Write to a temporary file first so a crash never leaves a half-written cache
+    const tmpFile = `${file}.${process.pid}.tmp`;
+    fs.writeFileSync(tmpFile, JSON.stringify({ version: CACHE_FILE_VERSION, entry }));
+    fs.renameSync(tmpFile, file);
+  } catch (error) {
+    logger.warning(`failed to write account cache ${file}: ${error}`);
+  }
+}
+
+/**
+ * Decide how an entry needs to be brought up to date
+ */
+export function syncNeeded<A extends CachedAccount>(
+  options: AccountCacheOptions,
+  entry: AccountCacheEntry<A> | undefined,
+  now = Date.now()
+): 'none' | 'incremental' | 'full' {
+  if (!entry || !entry.complete) {
+    return 'full';
+  }
+  if (now - Date.parse(entry.lastFullSyncAt) > options.fullSyncMs) {
+    return 'full';
+  }
+  if (now - Date.parse(entry.lastSyncAt) > options.ttlMs) {
+    return 'incremental';
+  }
+  return 'none';
+}
+
+/**
+ * The `updatedAt` cutoff for an incremental sync of an entry
+ */
+export function incrementalSince<A extends CachedAccount>(entry: AccountCacheEntry<A>): string {
+  return new Date(Date.parse(entry.lastSyncAt) - SYNC_OVERLAP_MS).toISOString();
+}
+
+/**
+ * Whether an account belongs in a list of the given status
+ */
+export function accountMatchesStatus(account: CachedAccount, status: string): boolean {
+  return status === 'activeOrChurned' || (status === 'churned' ? !!account.churnedAt : !account.churnedAt);
+}
+
+/**
+ * Merge accounts changed since the last sync into a cached list. Changes
+ * are fetched for every status, so accounts that moved out of the cached
+ * status (e.g. an active account that churned) are dropped.
+ */
+export function mergeAccounts<A extends CachedAccount>(cached: A[], changed: A[], status: string): A[] {
+  const byId = new Map(cached.map(account => [account.id, account]));
+
+  for (const account of changed) {
+    if (accountMatchesStatus(account, status)) {
+      byId.set(account.id, account);
+    } else {
+      byId.delete(account.id);
+    }
+  }
+
+  return [...byId.values()];
+}
+
+/**
+ * Summary of a cache entry for the cache status tool
+ */
+export function describeCacheEntry<A extends CachedAccount>(
+  options: AccountCacheOptions,
+  workspace: string,
+  status: string,
+  entry: AccountCacheEntry<A> | undefined,
+  now = Date.now()
+) {
+  const file = cacheFilePath(options, workspace, status);
+  const fileSize = file && fs.existsSync(file) ? fs.statSync(file).size : null;
+
+  return {
+    workspace,
+    status,
+    cached: !!entry,
+    complete: entry?.complete ?? false,
+    accountCount: entry?.accounts.length ?? 0,
+    lastSyncAt: entry?.lastSyncAt ?? null,
+    lastFullSyncAt: entry?.lastFullSyncAt ?? null,
+    ageSeconds: entry ? Math.round((now - Date.parse(entry.lastSyncAt)) / 1000) : null,
+    nextSync: syncNeeded(options, entry, now),
+    ttlMinutes: options.ttlMs / 60000,
+    file,
+    fileSizeBytes: fileSize
+  };
+}
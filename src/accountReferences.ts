@@ -0,0 +1,100 @@
+/**
+ * Copyright (c) 2024 John Jung
+ *
+ * Account references.
+ *
+ * Tools that take an `accountId` accept any of the ways people name an
+ * account: its Vitally ID, its external ID, its name (exact or partial) or
+ * the email domain of its users. These are the matching rules; the lookups
+ * against Vitally live with the rest of the API calls in index.ts.
+ *
+ * A reference is resolved in this order, stopping at the first match:
+ *   1. Vitally ID of a cached account, or anything shaped like a Vitally ID
+ *   2. Vitally ID or external ID looked up directly in Vitally
+ *   3. exact account name (case-insensitive)
+ *   4. email domain ('acme.com', 'jane@acme.com') of the account's users
+ *   5. partial or fuzzy account name
+ *
+ * Names and domains are matched against the cached active accounts. Write
+ * tools only accept the first three: a domain or partial name that matches
+ * a single account is still reported back rather than written to.
+ */
+
+import { matchScore } from './completion.js';
+
+export interface ReferencedAccount {
+  id: string;
+  name: string;
+  externalId?: string;
+}
+
+// A partial name match at least this good (the reference is a substring
+// of the name) beats fuzzy subsequence matches
+const CONFIDENT_NAME_SCORE = 40;
+
+const VITALLY_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Whether a reference has the shape of a Vitally ID (a UUID), so it can be
+ * used as-is without looking it up
+ */
+export function looksLikeVitallyId(reference: string): boolean {
+  return VITALLY_ID_PATTERN.test(reference);
+}
+
+/**
+ * The email domain a reference names, if it is an email address, a domain
+ * or a website URL ('jane@acme.com', 'acme.com', 'https://www.acme.com/')
+ */
+export function referencedDomain(reference: string): string | undefined {
+  const text = reference.trim().toLowerCase();
+  if (/\s/.test(text)) {
+    return undefined;
+  }
+
+  const host = text.includes('@')
+    ? text.slice(text.lastIndexOf('@') + 1)
+    : text.replace(/^[a-z]+:\/\//, '').split(/[/?#]/)[0].replace(/^www\./, '');
+  return /^[a-z0-9-]+(\.[a-z0-9-]+)+$/.test(host) ? host : undefined;
+}
+
+/**
+ * The account a reference is the Vitally ID or external ID of
+ */
+export function findById<A extends ReferencedAccount>(reference: string, accounts: A[]): A | undefined {
+  return accounts.find(account => account.id === reference)
+    ?? accounts.find(account => account.externalId === reference);
+}
+
+/**
+ * Accounts whose name is the reference, ignoring case
+ */
+export function exactNameMatches<A extends ReferencedAccount>(reference: string, accounts: A[]): A[] {
+  const name = reference.toLowerCase();
+  return accounts.filter(account => (account.name || '').toLowerCase() === name);
+}
+
+/**
+ * Accounts whose name partially matches the reference, best first. When
+ * any name contains the reference, weaker fuzzy matches are left out.
+ */
+export function fuzzyNameMatches<A extends ReferencedAccount>(reference: string, accounts: A[]): A[] {
+  const ranked = accounts
+    .map(account => ({ account, score: matchScore(reference, account.name || '') }))
+    .filter(match => match.score > 0)
+    .sort((a, b) => b.score - a.score || (a.account.name || '').localeCompare(b.account.name || ''));
+
+  const confident = ranked.filter(match => match.score >= CONFIDENT_NAME_SCORE);
+  return (confident.length > 0 ? confident : ranked).map(match => match.account);
+}
+
+/**
+ * The IDs of the accounts a Vitally user belongs to
+ */
+export function userAccountIds(user: Record<string, any>): string[] {
+  return [
+    ...(user.accountId ? [user.accountId] : []),
+    ...(user.accountIds || []),
+    ...(user.accounts || []).map((account: { id: string }) => account.id)
+  ];
+}
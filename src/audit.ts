@@ -0,0 +1,125 @@
+/**
+ * Copyright (c) 2024 John Jung
+ *
+ * Append-only audit log of every write made to Vitally.
+ *
+ * Each POST/PUT/PATCH/DELETE sent through the API client is appended as one
+ * JSON line to VITALLY_AUDIT_LOG (default: ~/.vitally-mcp/audit.jsonl), or
+ * nowhere when it is set to 'off'. Entries are never rewritten.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { logger } from './logger.js';
+
+/**
+ * What the caller knows about a write, beyond the request itself
+ */
+export interface AuditContext {
+  tool: string;
+  arguments?: Record<string, unknown>;
+  accountId?: string;
+  previous?: Record<string, unknown>;
+}
+
+export interface AuditEntry {
+  timestamp: string;
+  workspace: string;
+  tool: string;
+  method: string;
+  endpoint: string;
+  accountId: string | null;
+  arguments: Record<string, unknown> | null;
+  previous: Record<string, unknown> | null;
+  status: number | null;
+  ok: boolean;
+  error?: string;
+  demo?: boolean;
+}
+
+export interface AuditFilter {
+  accountId?: string;
+  tool?: string;
+  workspace?: string;
+  since?: string;
+  until?: string;
+  limit?: number;
+}
+
+export const MUTATING_METHODS = new Set(['POST', 'PUT', 'PATCH', 'DELETE']);
+
+/**
+ * Path of the audit log, or null when auditing is off
+ */
+export function auditLogPath(env: NodeJS.ProcessEnv = process.env): string | null {
+  const file = env.VITALLY_AUDIT_LOG || path.join(os.homedir(), '.vitally-mcp', 'audit.jsonl');
+  return file.toLowerCase() === 'off' ? null : path.resolve(file);
+}
+
+/**
+ * The account a request targets, taken from its endpoint
+ */
+export function accountIdFromEndpoint(endpoint: string): string | null {
+  const match = endpoint.match(/^\/resources\/accounts\/([^/?]+)/);
+  return match ? decodeURIComponent(match[1]) : null;
+}
+
+/**
+ * Append one entry to the audit log. Failing to write the log is reported
+ * but never fails the write itself, which has already happened.
+ */
+export function appendAuditEntry(entry: AuditEntry): void {
+  const file = auditLogPath();
+  if (!file) {
+    return;
+  }
+
+  try {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.appendFileSync(file, `${JSON.stringify(entry)}\n`);
+  } catch (error) {
+    logger.warning(`failed to write audit log ${file}: ${error}`);
+  }
+}
+
+/**
+ * Read audit entries matching a filter, most recent first
+ */
+export function readAuditLog(filter: AuditFilter): AuditEntry[] {
+  const file = auditLogPath();
+  if (!file || !fs.existsSync(file)) {
+    return [];
+  }
+
+  const since = filter.since ? Date.parse(filter.since) : undefined;
+  const until = filter.until ? Date.parse(filter.until) : undefined;
+  if (Number.isNaN(since) || Number.isNaN(until)) {
+    throw new Error('since and until must be ISO 8601 dates');
+  }
+
+  const entries: AuditEntry[] = [];
+  for (const line of fs.readFileSync(file, 'utf8').split('\n')) {
+    if (!line.trim()) {
+      continue;
+    }
+
+    let entry: AuditEntry;
+    try {
+      entry = JSON.parse(line);
+    } catch {
+      continue; // a partially written line, e.g. after a crash
+    }
+
+    const time = Date.parse(entry.timestamp);
+    if (filter.accountId && entry.accountId !== filter.accountId) continue;
+    if (filter.tool && entry.tool !== filter.tool) continue;
+    if (filter.workspace && entry.workspace !== filter.workspace) continue;
+    if (since !== undefined && time < since) continue;
+    if (until !== undefined && time > until) continue;
+
+    entries.push(entry);
+  }
+
+  return entries.reverse().slice(0, filter.limit ?? 50);
+}
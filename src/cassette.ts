@@ -0,0 +1,164 @@
+/**
+ * Copyright (c) 2024 John Jung
+ *
+ * Record and replay Vitally API traffic.
+ *
+ * With VITALLY_RECORD=<file> every request sent to Vitally and the response
+ * it got are appended to a cassette (one JSON line per interaction, with the
+ * Authorization header scrubbed). With VITALLY_REPLAY=<file> the recorded
+ * responses are served instead and nothing goes over the network; a request
+ * that isn't in the cassette fails instead of falling through.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { stableStringify } from './confirmations.js';
+
+export type CassetteMode = 'record' | 'replay';
+
+export interface CassetteOptions {
+  mode: CassetteMode;
+  file: string;
+}
+
+export interface RecordedRequest {
+  workspace: string;
+  method: string;
+  endpoint: string;
+  url: string;
+  headers: Record<string, string>;
+  body: unknown;
+}
+
+export interface RecordedResponse {
+  status: number;
+  statusText: string;
+  body: unknown;
+}
+
+export interface CassetteInteraction {
+  recordedAt: string;
+  request: RecordedRequest;
+  response: RecordedResponse;
+}
+
+export interface Cassette {
+  mode: CassetteMode;
+  file: string;
+  record(request: RecordedRequest, response: RecordedResponse): void;
+  replay(workspace: string, method: string, endpoint: string, body?: unknown): RecordedResponse;
+}
+
+const SCRUBBED_HEADERS = new Set(['authorization', 'cookie', 'x-api-key']);
+
+/**
+ * Cassette settings from VITALLY_RECORD / VITALLY_REPLAY, or null when
+ * neither is set
+ */
+export function cassetteOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): CassetteOptions | null {
+  if (env.VITALLY_RECORD && env.VITALLY_REPLAY) {
+    throw new Error('VITALLY_RECORD and VITALLY_REPLAY cannot both be set');
+  }
+  if (env.VITALLY_RECORD) {
+    return { mode: 'record', file: path.resolve(env.VITALLY_RECORD) };
+  }
+  if (env.VITALLY_REPLAY) {
+    return { mode: 'replay', file: path.resolve(env.VITALLY_REPLAY) };
+  }
+  return null;
+}
+
+/**
+ * Copy of the request headers with credentials replaced
+ */
+export function scrubHeaders(headers: Record<string, string>): Record<string, string> {
+  const scrubbed: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers)) {
+    scrubbed[name] = SCRUBBED_HEADERS.has(name.toLowerCase()) ? '[REDACTED]' : value;
+  }
+  return scrubbed;
+}
+
+function interactionKey(workspace: string, method: string, endpoint: string, body: unknown): string {
+  return `${workspace} ${method.toUpperCase()} ${endpoint} ${body === undefined ? '' : stableStringify(body)}`;
+}
+
+function readInteractions(file: string): CassetteInteraction[] {
+  if (!fs.existsSync(file)) {
+    throw new Error(`Cassette file ${file} does not exist`);
+  }
+
+  const interactions: CassetteInteraction[] = [];
+  const lines = fs.readFileSync(file, 'utf8').split('\n');
+  lines.forEach((line, index) => {
+    if (!line.trim()) {
+      return;
+    }
+    try {
+      interactions.push(JSON.parse(line));
+    } catch {
+      throw new Error(`Cassette file ${file} has an invalid entry on line ${index + 1}`);
+    }
+  });
+  return interactions;
+}
+
+/**
+ * Open a cassette. Recording starts a new file; replaying loads the whole
+ * file up front so a missing or corrupt cassette fails at startup.
+ */
+export function openCassette(options: CassetteOptions): Cassette {
+  const { mode, file } = options;
+
+  if (mode === 'record') {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, '');
+
+    return {
+      mode,
+      file,
+      record(request, response) {
+        const interaction: CassetteInteraction = {
+          recordedAt: new Date().toISOString(),
+          request: { ...request, headers: scrubHeaders(request.headers) },
+          response
+        };
+        fs.appendFileSync(file, `${JSON.stringify(interaction)}\n`);
+      },
+      replay() {
+        throw new Error('Cannot replay while recording');
+      }
+    };
+  }
+
+  // Repeated requests (e.g. reading an account before and after an update)
+  // are answered in the order they were recorded; the last answer repeats
+  const recorded = new Map<string, RecordedResponse[]>();
+  const served = new Map<string, number>();
+  for (const { request, response } of readInteractions(file)) {
+    const key = interactionKey(request.workspace, request.method, request.endpoint, request.body ?? undefined);
+    recorded.set(key, [...(recorded.get(key) || []), response]);
+  }
+
+  return {
+    mode,
+    file,
+    record() {
+      throw new Error('Cannot record while replaying');
+    },
+    replay(workspace, method, endpoint, body) {
+      const key = interactionKey(workspace, method, endpoint, body);
+      const responses = recorded.get(key);
+      if (!responses) {
+        throw new Error(
+          `No recorded response for ${method} ${endpoint} (workspace '${workspace}') in cassette ${file}. ` +
+          'Record the session again to include this request.'
+        );
+      }
+
+      const count = served.get(key) || 0;
+      served.set(key, count + 1);
+      return responses[Math.min(count, responses.length - 1)];
+    }
+  };
+}
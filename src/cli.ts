@@ -0,0 +1,135 @@
+/**
+ * Copyright (c) 2024 John Jung
+ *
+ * Command line subcommands, so scripts can run the same tools as MCP
+ * clients without one:
+ *
+ *   vitally-mcp call refresh_accounts --status churned
+ *   vitally-mcp call get_account_notes '{"accountId": "1", "limit": 5}'
+ *
+ * Arguments are passed as `--name value` flags, a JSON object, or both
+ * (flags win). They are validated against the tool's schema like any
+ * other call, so strings such as "5" or "true" are fine for numbers and
+ * booleans.
+ */
+
+import { ToolResult } from './registry.js';
+
+export const CLI_USAGE = `Usage:
+  vitally-mcp                            Start the MCP server (stdio, or --http)
+  vitally-mcp call <tool> [args]         Run a tool and print its result
+  vitally-mcp tools                      List the available tools
+  vitally-mcp doctor                     Check configuration and connectivity
+
+Tool arguments:
+  --name value, --name=value             Set an argument (--account-id is accountId)
+  --flag / --no-flag                     Set a boolean argument to true / false
+  '{"name": "value"}'                    Set arguments from a JSON object
+  -                                      Read a JSON object of arguments from stdin
+
+Exit status is 0 on success, 1 when the tool fails, 2 for usage errors and
+3 when the output is incomplete (run again with the --cursor printed to stderr).`;
+
+/**
+ * A mistake in how the command was invoked, as opposed to a tool failure
+ */
+export class CliUsageError extends Error {}
+
+function camelCase(name: string): string {
+  return name.replace(/-([a-z0-9])/g, (_, letter: string) => letter.toUpperCase());
+}
+
+function parseJsonArguments(text: string, source: string): Record<string, unknown> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    throw new CliUsageError(`Invalid JSON arguments from ${source}: ${error instanceof Error ? error.message : error}`);
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new CliUsageError(`Arguments from ${source} must be a JSON object`);
+  }
+  return parsed as Record<string, unknown>;
+}
+
+/**
+ * Parse the arguments after `call <tool>` into a tool arguments object.
+ * `readStdin` is only called when an argument is `-`.
+ */
+export async function parseToolArguments(
+  argv: string[],
+  readStdin: () => Promise<string>
+): Promise<Record<string, unknown>> {
+  let fromJson: Record<string, unknown> = {};
+  const fromFlags: Record<string, unknown> = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+
+    if (arg === '-') {
+      fromJson = { ...fromJson, ...parseJsonArguments(await readStdin(), 'stdin') };
+      continue;
+    }
+
+    if (!arg.startsWith('--')) {
+      if (arg.trim().startsWith('{')) {
+        fromJson = { ...fromJson, ...parseJsonArguments(arg, 'the command line') };
+        continue;
+      }
+      throw new CliUsageError(`Unexpected argument '${arg}'. Pass arguments as --name value or a JSON object.`);
+    }
+
+    const flag = arg.slice(2);
+    const equals = flag.indexOf('=');
+    if (equals !== -1) {
+      fromFlags[camelCase(flag.slice(0, equals))] = flag.slice(equals + 1);
+      continue;
+    }
+
+    const next = argv[i + 1];
+    if (next === undefined || next.startsWith('--')) {
+      // A bare flag is a boolean
+      if (flag.startsWith('no-')) {
+        fromFlags[camelCase(flag.slice(3))] = false;
+      } else {
+        fromFlags[camelCase(flag)] = true;
+      }
+      continue;
+    }
+
+    fromFlags[camelCase(flag)] = next;
+    i++;
+  }
+
+  return { ...fromJson, ...fromFlags };
+}
+
+/**
+ * The text of a tool result, as printed to stdout, and for a result with
+ * more to fetch, how to continue. That goes to stderr, so stdout only ever
+ * holds the output itself (e.g. valid CSV).
+ */
+export function formatToolResult(result: ToolResult): { output: string; continuation?: string } {
+  const text = (item: ToolResult["content"][number]) => item.type === 'text' ? item.text : JSON.stringify(item, null, 2);
+  const nextCursor = result._meta?.nextCursor;
+
+  if (typeof nextCursor !== 'string') {
+    return { output: result.content.map(text).join('\n') };
+  }
+  // Only the first item is output; the rest tell MCP clients how to continue
+  return {
+    output: text(result.content[0]),
+    continuation: `Output is incomplete. Run the command again with --cursor "${nextCursor}" for the next results.`
+  };
+}
+
+/**
+ * Read all of stdin as text
+ */
+export async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
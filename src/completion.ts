@@ -0,0 +1,96 @@
+/**
+ * Copyright (c) 2024 John Jung
+ *
+ * Ranking for argument autocompletion (MCP `completion/complete`).
+ *
+ * Candidates are matched on their value and, if they have one, a label the
+ * user is more likely to type (e.g. an account's name for its ID). Exact
+ * matches rank first, then prefixes, then word prefixes (`plan` for
+ * `vitally.custom.plan`), then substrings, then fuzzy subsequence matches
+ * (`acmcorp` for `Acme Corporation`).
+ */
+
+export interface CompletionCandidate {
+  // What the argument is completed to, e.g. an account ID
+  value: string;
+  // What the user may be typing instead, e.g. the account's name
+  label?: string;
+}
+
+export interface Completion {
+  values: string[];
+  total: number;
+  hasMore: boolean;
+}
+
+// MCP allows at most 100 values per completion
+export const MAX_COMPLETIONS = 100;
+
+/**
+ * Score how well a query matches a text, or 0 for no match. Within a tier,
+ * shorter texts score higher since the query covers more of them.
+ */
+export function matchScore(query: string, text: string): number {
+  const q = query.toLowerCase();
+  const t = text.toLowerCase();
+  const coverage = q.length / Math.max(t.length, 1);
+
+  if (t === q) {
+    return 100;
+  }
+  if (t.startsWith(q)) {
+    return 80 + 10 * coverage;
+  }
+  if (t.split(/[\s._\-/:]+/).some(word => word.startsWith(q))) {
+    return 60 + 10 * coverage;
+  }
+  if (t.includes(q)) {
+    return 40 + 10 * coverage;
+  }
+
+  // Fuzzy: every character of the query in order, scored by how tightly
+  // they're packed
+  let position = -1;
+  let first = -1;
+  for (const character of q) {
+    position = t.indexOf(character, position + 1);
+    if (position === -1) {
+      return 0;
+    }
+    if (first === -1) {
+      first = position;
+    }
+  }
+  return 20 * (q.length / (position - first + 1));
+}
+
+/**
+ * Rank candidates against what the user has typed so far. An empty query
+ * lists every candidate, in label order.
+ */
+export function completeValues(query: string, candidates: CompletionCandidate[]): Completion {
+  const trimmed = query.trim();
+  const best = new Map<string, { score: number; label: string }>();
+
+  for (const candidate of candidates) {
+    const label = candidate.label ?? candidate.value;
+    const score = trimmed === ''
+      ? 1
+      : Math.max(matchScore(trimmed, candidate.value), candidate.label ? matchScore(trimmed, candidate.label) : 0);
+
+    const previous = best.get(candidate.value);
+    if (score > 0 && (!previous || score > previous.score)) {
+      best.set(candidate.value, { score, label });
+    }
+  }
+
+  const ranked = [...best.entries()]
+    .sort(([, a], [, b]) => b.score - a.score || a.label.localeCompare(b.label))
+    .map(([value]) => value);
+
+  return {
+    values: ranked.slice(0, MAX_COMPLETIONS),
+    total: ranked.length,
+    hasMore: ranked.length > MAX_COMPLETIONS
+  };
+}
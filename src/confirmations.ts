@@ -0,0 +1,88 @@
+/**
+ * Copyright (c) 2024 John Jung
+ *
+ * Two-step confirmation for write tools.
+ *
+ * When enabled (VITALLY_CONFIRM_WRITES=true) the first call to a write tool
+ * only returns a preview and a short-lived token. The write happens when the
+ * tool is called again with the same arguments and that token. Tokens are
+ * single use and expire after VITALLY_CONFIRMATION_TTL_SECONDS (default: 300).
+ */
+
+import { randomBytes } from 'crypto';
+
+interface PendingConfirmation {
+  tool: string;
+  fingerprint: string;
+  expiresAt: number;
+}
+
+const pending = new Map<string, PendingConfirmation>();
+
+/**
+ * Whether write tools require a confirmation token
+ */
+export function confirmationsRequired(env: NodeJS.ProcessEnv = process.env): boolean {
+  return ['1', 'true', 'yes', 'on'].includes((env.VITALLY_CONFIRM_WRITES || '').toLowerCase());
+}
+
+function confirmationTtlMs(env: NodeJS.ProcessEnv = process.env): number {
+  return (Number(env.VITALLY_CONFIRMATION_TTL_SECONDS) || 300) * 1000;
+}
+
+/**
+ * JSON with sorted object keys, so the same arguments always produce the
+ * same fingerprint regardless of key order
+ */
+export function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+function prune(now: number): void {
+  for (const [token, confirmation] of pending) {
+    if (confirmation.expiresAt <= now) {
+      pending.delete(token);
+    }
+  }
+}
+
+/**
+ * Issue a token that authorises one call of `tool` with exactly `payload`
+ */
+export function issueConfirmationToken(tool: string, payload: unknown): { token: string; expiresAt: string } {
+  const now = Date.now();
+  prune(now);
+
+  const token = randomBytes(6).toString('hex');
+  const expiresAt = now + confirmationTtlMs();
+  pending.set(token, { tool, fingerprint: stableStringify(payload), expiresAt });
+
+  return { token, expiresAt: new Date(expiresAt).toISOString() };
+}
+
+/**
+ * Check and use up a confirmation token. Throws when the token is unknown,
+ * expired, or was issued for a different tool or different arguments.
+ */
+export function consumeConfirmationToken(token: string, tool: string, payload: unknown): void {
+  prune(Date.now());
+
+  const confirmation = pending.get(token);
+  if (!confirmation) {
+    throw new Error(`Confirmation token '${token}' is unknown or has expired. Call ${tool} without a token to get a new one.`);
+  }
+  if (confirmation.tool !== tool || confirmation.fingerprint !== stableStringify(payload)) {
+    throw new Error(`Confirmation token '${token}' was issued for different arguments. Call ${tool} without a token to get a new one.`);
+  }
+
+  pending.delete(token);
+}
@@ -0,0 +1,136 @@
+/**
+ * Copyright (c) 2024 John Jung
+ *
+ * Date windows for the `since` / `until` tool arguments.
+ *
+ * Both accept an ISO 8601 date or time, a relative duration back from now
+ * (`30d`, `12h`, `2w`, `6m`, `1y`) or a named calendar period (`today`,
+ * `yesterday`, `this_week`, `last_week`, `this_month`, `last_month`,
+ * `this_quarter`, `last_quarter`, `this_year`, `last_year`). Calendar
+ * periods are in UTC and weeks start on Monday. A named period given only
+ * as `since` covers just that period, so `since: last_quarter` means
+ * "during last quarter". `until` is exclusive, except that a plain date
+ * includes the whole of that day.
+ */
+
+export interface DateRange {
+  since?: Date;
+  until?: Date;
+}
+
+const DURATION_UNITS: Record<string, (date: Date, amount: number) => void> = {
+  h: (date, amount) => date.setUTCHours(date.getUTCHours() - amount),
+  d: (date, amount) => date.setUTCDate(date.getUTCDate() - amount),
+  w: (date, amount) => date.setUTCDate(date.getUTCDate() - amount * 7),
+  m: (date, amount) => date.setUTCMonth(date.getUTCMonth() - amount),
+  y: (date, amount) => date.setUTCFullYear(date.getUTCFullYear() - amount),
+};
+
+export const DATE_EXPRESSION_HELP =
+  "an ISO 8601 date, a duration back from now (e.g. '30d', '12h', '2w', '6m', '1y') or a period " +
+  "('today', 'yesterday', 'this_week', 'last_week', 'this_month', 'last_month', 'this_quarter', " +
+  "'last_quarter', 'this_year', 'last_year')";
+
+/**
+ * Start (inclusive) and end (exclusive) of a named calendar period
+ */
+function namedPeriod(name: string, now: Date): { start: Date; end: Date } | undefined {
+  const year = now.getUTCFullYear();
+  const month = now.getUTCMonth();
+  const day = now.getUTCDate();
+  const utc = (y: number, m: number, d = 1) => new Date(Date.UTC(y, m, d));
+  const weekStart = day - ((now.getUTCDay() + 6) % 7);
+  const quarterStart = month - (month % 3);
+
+  switch (name) {
+    case 'today':
+      return { start: utc(year, month, day), end: utc(year, month, day + 1) };
+    case 'yesterday':
+      return { start: utc(year, month, day - 1), end: utc(year, month, day) };
+    case 'this_week':
+      return { start: utc(year, month, weekStart), end: utc(year, month, weekStart + 7) };
+    case 'last_week':
+      return { start: utc(year, month, weekStart - 7), end: utc(year, month, weekStart) };
+    case 'this_month':
+      return { start: utc(year, month), end: utc(year, month + 1) };
+    case 'last_month':
+      return { start: utc(year, month - 1), end: utc(year, month) };
+    case 'this_quarter':
+      return { start: utc(year, quarterStart), end: utc(year, quarterStart + 3) };
+    case 'last_quarter':
+      return { start: utc(year, quarterStart - 3), end: utc(year, quarterStart) };
+    case 'this_year':
+      return { start: utc(year, 0), end: utc(year + 1, 0) };
+    case 'last_year':
+      return { start: utc(year - 1, 0), end: utc(year, 0) };
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Resolve one expression to a point in time. A period resolves to its start
+ * when used as `since` and its end when used as `until`.
+ */
+function resolveExpression(expression: string, edge: 'since' | 'until', now: Date): Date {
+  const text = expression.trim().toLowerCase();
+
+  const period = namedPeriod(text, now);
+  if (period) {
+    return edge === 'since' ? period.start : period.end;
+  }
+
+  const duration = text.match(/^(\d+)\s*([hdwmy])$/);
+  if (duration) {
+    const date = new Date(now);
+    DURATION_UNITS[duration[2]](date, Number(duration[1]));
+    return date;
+  }
+
+  const time = Date.parse(expression);
+  if (!Number.isNaN(time)) {
+    // A plain date as `until` includes that whole day
+    const wholeDay = edge === 'until' && /^\d{4}-\d{2}-\d{2}$/.test(text);
+    return new Date(wholeDay ? time + 24 * 60 * 60 * 1000 : time);
+  }
+
+  throw new Error(`Invalid ${edge} '${expression}': expected ${DATE_EXPRESSION_HELP}`);
+}
+
+/**
+ * Resolve `since` / `until` arguments to a date window
+ */
+export function resolveDateRange(since?: string, until?: string, now: Date = new Date()): DateRange {
+  const range: DateRange = {};
+
+  if (since) {
+    range.since = resolveExpression(since, 'since', now);
+    // `since: last_quarter` alone means during last quarter, not since it began
+    const period = namedPeriod(since.trim().toLowerCase(), now);
+    if (period && !until) {
+      range.until = period.end;
+    }
+  }
+  if (until) {
+    range.until = resolveExpression(until, 'until', now);
+  }
+
+  if (range.since && range.until && range.since >= range.until) {
+    throw new Error(`since (${range.since.toISOString()}) must be before until (${range.until.toISOString()})`);
+  }
+  return range;
+}
+
+/**
+ * Whether a timestamp falls inside a window (since inclusive, until exclusive)
+ */
+export function isInRange(timestamp: string | undefined, range: DateRange): boolean {
+  if (!timestamp) {
+    return false;
+  }
+  const time = Date.parse(timestamp);
+  if (Number.isNaN(time)) {
+    return false;
+  }
+  return (!range.since || time >= range.since.getTime()) && (!range.until || time < range.until.getTime());
+}
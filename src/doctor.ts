@@ -0,0 +1,230 @@
+/**
+ * Copyright (c) 2024 John Jung
+ *
+ * Self-check of the server's configuration and its connection to Vitally.
+ *
+ * Checks each workspace's settings, resolves its API base URL and calls a
+ * few core endpoints, reporting what failed and how to fix it. Run it with
+ * `vitally-mcp doctor` or through the `doctor` tool.
+ */
+
+import { findApiError } from './errors.js';
+import { Workspace } from './workspaces.js';
+
+export type CheckStatus = 'pass' | 'warn' | 'fail' | 'skip';
+
+export interface DoctorCheck {
+  name: string;
+  status: CheckStatus;
+  detail: string;
+  hint?: string;
+}
+
+export interface WorkspaceDiagnosis {
+  workspace: string;
+  baseUrl: string;
+  demoMode: boolean;
+  checks: DoctorCheck[];
+}
+
+export interface DoctorReport {
+  ok: boolean;
+  checkedAt: string;
+  environment: DoctorCheck[];
+  workspaces: WorkspaceDiagnosis[];
+}
+
+export interface DoctorOptions {
+  // The .env file that was loaded, if any
+  envFile?: string | null;
+  // Cassette being replayed, if any; endpoint checks then don't reach Vitally
+  replayingFrom?: string | null;
+}
+
+/**
+ * Makes a GET request to a workspace's API, e.g. callVitallyAPI
+ */
+export type DoctorRequest = (workspace: Workspace, endpoint: string) => Promise<unknown>;
+
+const ENDPOINT_CHECKS = [
+  { name: 'GET /resources/accounts', endpoint: '/resources/accounts?limit=1' },
+  { name: 'GET /resources/customFields', endpoint: '/resources/customFields?model=accounts' },
+  { name: 'GET /resources/users/search', endpoint: '/resources/users/search?email=doctor%40example.com' },
+];
+
+const DATA_CENTERS = ['US', 'EU'];
+
+/**
+ * Suggest a fix for a failed API call based on its status code or error
+ */
+function hintForFailure(workspace: Workspace, error: unknown): string {
+  const prefix = workspace.envPrefix;
+  const status = findApiError(error)?.status ?? NaN;
+
+  if (status === 401) {
+    return `Vitally rejected the API key. Copy the secret token again from Settings > Integrations > Vitally REST API into ${prefix}API_KEY.`;
+  }
+  if (status === 403) {
+    return 'The API key is not allowed to read this resource. Check that the Vitally REST API integration is enabled.';
+  }
+  if (status === 404) {
+    return workspace.dataCenter === 'EU'
+      ? `Nothing answered at ${workspace.baseUrl}. Check that your workspace is hosted in the EU, or set ${prefix}DATA_CENTER=US.`
+      : `Nothing answered at ${workspace.baseUrl}. Check that ${prefix}API_SUBDOMAIN matches your Vitally URL, and set ${prefix}DATA_CENTER=EU if your workspace is hosted in the EU.`;
+  }
+  if (status === 429) {
+    return 'Vitally is rate limiting this API key. Wait a minute and run the check again.';
+  }
+  if (status >= 500) {
+    return 'Vitally returned a server error. Try again later.';
+  }
+  return `Could not reach ${workspace.baseUrl}. Check ${prefix}API_SUBDOMAIN and ${prefix}DATA_CENTER, and that this machine can reach the internet (or your proxy).`;
+}
+
+/**
+ * Check the settings of one workspace, without calling the API
+ */
+function checkWorkspaceSettings(workspace: Workspace, env: NodeJS.ProcessEnv): DoctorCheck[] {
+  const prefix = workspace.envPrefix;
+  const checks: DoctorCheck[] = [];
+
+  if (!workspace.apiKey) {
+    checks.push({
+      name: 'API key',
+      status: 'fail',
+      detail: `${prefix}API_KEY is not set, so this workspace is running in demo mode with fixture data`,
+      hint: `Set ${prefix}API_KEY to the secret token from Settings > Integrations > Vitally REST API.`
+    });
+  } else if (workspace.demoMode) {
+    checks.push({
+      name: 'API key',
+      status: 'fail',
+      detail: `${prefix}API_KEY still has the placeholder value, so this workspace is running in demo mode`,
+      hint: `Replace the placeholder in ${prefix}API_KEY with your Vitally API key.`
+    });
+  } else {
+    checks.push({ name: 'API key', status: 'pass', detail: `${prefix}API_KEY is set` });
+  }
+
+  if (!DATA_CENTERS.includes(workspace.dataCenter)) {
+    checks.push({
+      name: 'Data center',
+      status: 'fail',
+      detail: `${prefix}DATA_CENTER is '${workspace.dataCenter}', which is not a Vitally data center, so US is used`,
+      hint: `Set ${prefix}DATA_CENTER to US or EU.`
+    });
+  } else {
+    checks.push({ name: 'Data center', status: 'pass', detail: workspace.dataCenter });
+  }
+
+  if (workspace.dataCenter === 'EU') {
+    checks.push({ name: 'Subdomain', status: 'skip', detail: 'not used for EU workspaces' });
+  } else if (!env[`${prefix}API_SUBDOMAIN`]) {
+    checks.push({
+      name: 'Subdomain',
+      status: 'warn',
+      detail: `${prefix}API_SUBDOMAIN is not set, so the default '${workspace.subdomain}' is used`,
+      hint: `Set ${prefix}API_SUBDOMAIN to the subdomain of your Vitally URL (https://<subdomain>.vitally.io).`
+    });
+  } else {
+    checks.push({ name: 'Subdomain', status: 'pass', detail: workspace.subdomain });
+  }
+
+  checks.push({ name: 'Base URL', status: 'pass', detail: workspace.baseUrl });
+  return checks;
+}
+
+/**
+ * Call each core endpoint once and report whether it answered
+ */
+async function checkEndpoints(workspace: Workspace, request: DoctorRequest): Promise<DoctorCheck[]> {
+  const checks: DoctorCheck[] = [];
+
+  for (const { name, endpoint } of ENDPOINT_CHECKS) {
+    if (workspace.demoMode) {
+      checks.push({ name, status: 'skip', detail: 'demo mode, no API key to test' });
+      continue;
+    }
+
+    const started = Date.now();
+    try {
+      await request(workspace, endpoint);
+      checks.push({ name, status: 'pass', detail: `answered in ${Date.now() - started}ms` });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      checks.push({ name, status: 'fail', detail: message, hint: hintForFailure(workspace, error) });
+    }
+  }
+
+  return checks;
+}
+
+/**
+ * Run every check against the given workspaces
+ */
+export async function runDoctor(
+  workspaces: Workspace[],
+  request: DoctorRequest,
+  options: DoctorOptions = {},
+  env: NodeJS.ProcessEnv = process.env
+): Promise<DoctorReport> {
+  const environment: DoctorCheck[] = [];
+
+  environment.push(options.envFile
+    ? { name: '.env file', status: 'pass', detail: `loaded from ${options.envFile}` }
+    : { name: '.env file', status: 'warn', detail: 'not found, using the process environment only', hint: 'Create a .env file in the directory the server is started from, or pass the variables in its environment.' });
+
+  if (options.replayingFrom) {
+    environment.push({
+      name: 'Replay',
+      status: 'warn',
+      detail: `replaying ${options.replayingFrom}, so endpoint checks show recorded responses rather than live ones`,
+      hint: 'Unset VITALLY_REPLAY to check the live connection.'
+    });
+  }
+
+  const diagnoses: WorkspaceDiagnosis[] = [];
+  for (const workspace of workspaces) {
+    diagnoses.push({
+      workspace: workspace.name,
+      baseUrl: workspace.baseUrl,
+      demoMode: workspace.demoMode,
+      checks: [...checkWorkspaceSettings(workspace, env), ...await checkEndpoints(workspace, request)]
+    });
+  }
+
+  const allChecks = [...environment, ...diagnoses.flatMap(diagnosis => diagnosis.checks)];
+  return {
+    ok: allChecks.every(check => check.status !== 'fail'),
+    checkedAt: new Date().toISOString(),
+    environment,
+    workspaces: diagnoses
+  };
+}
+
+/**
+ * Render a report as plain text for the terminal
+ */
+export function formatDoctorReport(report: DoctorReport): string {
+  const lines: string[] = [];
+  const formatCheck = (check: DoctorCheck) => {
+    lines.push(`  [${check.status.toUpperCase()}] ${check.name}: ${check.detail}`);
+    if (check.hint && check.status !== 'pass') {
+      lines.push(`         ${check.hint}`);
+    }
+  };
+
+  lines.push('Environment');
+  report.environment.forEach(formatCheck);
+
+  for (const diagnosis of report.workspaces) {
+    lines.push('', `Workspace '${diagnosis.workspace}' (${diagnosis.baseUrl})`);
+    diagnosis.checks.forEach(formatCheck);
+  }
+
+  const failures = [...report.environment, ...report.workspaces.flatMap(diagnosis => diagnosis.checks)]
+    .filter(check => check.status === 'fail').length;
+  lines.push('', failures === 0 ? 'All checks passed.' : `${failures} check${failures === 1 ? '' : 's'} failed.`);
+
+  return lines.join('\n');
+}
@@ -0,0 +1,265 @@
+/**
+ * Copyright (c) 2024 John Jung
+ *
+ * Typed errors for failed Vitally API calls and account references that
+ * can't be resolved.
+ *
+ * A failed call keeps its status, method, endpoint and the error body
+ * Vitally sent back, is classified (not found, rejected, rate limited, ...)
+ * and carries a hint on what to do next. Tools report these as `isError`
+ * results; resources and prompts throw them as MCP errors with a matching
+ * error code.
+ */
+
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { Workspace } from './workspaces.js';
+import { ReferencedAccount } from './accountReferences.js';
+
+export type ApiErrorKind =
+  | 'unauthorized'
+  | 'forbidden'
+  | 'not_found'
+  | 'invalid_request'
+  | 'rate_limited'
+  | 'server_error'
+  | 'failed';
+
+function classifyStatus(status: number): ApiErrorKind {
+  switch (status) {
+    case 401:
+      return 'unauthorized';
+    case 403:
+      return 'forbidden';
+    case 404:
+      return 'not_found';
+    case 400:
+    case 422:
+      return 'invalid_request';
+    case 429:
+      return 'rate_limited';
+    default:
+      return status >= 500 ? 'server_error' : 'failed';
+  }
+}
+
+/**
+ * The human-readable part of a Vitally error body, if there is one
+ */
+function vitallyErrorMessage(body: unknown): string | undefined {
+  if (typeof body === 'string') {
+    const text = body.trim();
+    // Skip HTML error pages from proxies and load balancers
+    return text && !text.startsWith('<') ? text.slice(0, 300) : undefined;
+  }
+  if (body && typeof body === 'object') {
+    const { error, message, errors } = body as Record<string, any>;
+    if (typeof error === 'string') {
+      return error;
+    }
+    if (typeof message === 'string') {
+      return message;
+    }
+    if (typeof error?.message === 'string') {
+      return error.message;
+    }
+    if (Array.isArray(errors)) {
+      return errors.map(item => typeof item === 'string' ? item : item?.message ?? JSON.stringify(item)).join('; ');
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Suggest what to do about a failed call, based on what failed and where
+ */
+function hintFor(kind: ApiErrorKind, method: string, endpoint: string, workspace: Workspace): string {
+  const path = endpoint.split('?')[0];
+  const [, resource, id, subresource] = path.match(/^\/resources\/(\w+)\/([^/]+)(?:\/(\w+))?/) || [];
+
+  switch (kind) {
+    case 'unauthorized':
+      return `Vitally rejected the API key for workspace '${workspace.name}'. Check ${workspace.envPrefix}API_KEY, and run the doctor tool to test the connection.`;
+    case 'forbidden':
+      return `The API key for workspace '${workspace.name}' isn't allowed to ${method === 'GET' ? 'read' : 'change'} this. Check that the Vitally REST API integration has access.`;
+    case 'not_found':
+      if (resource === 'accounts' && subresource === 'healthScores') {
+        return `Account '${decodeURIComponent(id)}' has no health scores. Check the account ID with get_account_details; new accounts may not have been scored yet.`;
+      }
+      if (resource === 'accounts' && id !== 'search') {
+        return `Account '${decodeURIComponent(id)}' was not found in workspace '${workspace.name}'. Look up its ID with find_account_by_name or search_accounts.`;
+      }
+      if (resource === 'notes') {
+        return `Note '${decodeURIComponent(id)}' was not found. List an account's notes and their IDs with get_account_notes.`;
+      }
+      if (resource === 'users' && id !== 'search') {
+        return `User '${decodeURIComponent(id)}' was not found. Look users up with search_users.`;
+      }
+      return `Vitally has nothing at ${path} in workspace '${workspace.name}'. Check the IDs passed in.`;
+    case 'invalid_request':
+      if (resource === 'accounts' && method === 'PUT') {
+        return 'Vitally rejected the trait update. Check the trait keys and value types with list_custom_traits (model: accounts).';
+      }
+      if (resource === 'notes' && method === 'POST') {
+        return 'Vitally rejected the note. Check that accountId exists and that content is not empty.';
+      }
+      return 'Vitally rejected the request. Check the arguments against the tool description.';
+    case 'rate_limited':
+      return 'Vitally is rate limiting this API key and the retries ran out. Wait a minute and try again, or lower VITALLY_RATE_LIMIT_PER_MINUTE if other integrations share the key.';
+    case 'server_error':
+      return 'Vitally had a server error. Try again shortly.';
+    default:
+      return 'The Vitally API call failed. See vitallyError for what Vitally said.';
+  }
+}
+
+/**
+ * A Vitally API call that got an error response
+ */
+export class VitallyApiError extends Error {
+  readonly kind: ApiErrorKind;
+  readonly vitallyError?: string;
+  readonly hint: string;
+
+  constructor(
+    readonly workspace: Workspace,
+    readonly method: string,
+    readonly endpoint: string,
+    readonly status: number,
+    readonly statusText: string,
+    readonly body: unknown
+  ) {
+    const vitallyError = vitallyErrorMessage(body);
+    super(`API call failed: ${status} ${statusText} (${method} ${endpoint})${vitallyError ? `: ${vitallyError}` : ''}`);
+    this.name = 'VitallyApiError';
+    this.kind = classifyStatus(status);
+    this.vitallyError = vitallyError;
+    this.hint = hintFor(this.kind, method, endpoint, workspace);
+  }
+
+  /**
+   * Details for tool results and MCP error data
+   */
+  toJSON() {
+    return {
+      kind: this.kind,
+      status: this.status,
+      method: this.method,
+      endpoint: this.endpoint,
+      workspace: this.workspace.name,
+      vitallyError: this.vitallyError ?? null,
+      hint: this.hint
+    };
+  }
+}
+
+// How many candidates an ambiguous account reference reports
+const MAX_CANDIDATES = 10;
+
+export type AccountReferenceErrorKind = 'unknown_account' | 'ambiguous_account' | 'inexact_account';
+
+function accountReferenceMessage(kind: AccountReferenceErrorKind, reference: string, matches: number): string {
+  switch (kind) {
+    case 'ambiguous_account':
+      return `Account '${reference}' is ambiguous: it matches ${matches} accounts`;
+    case 'inexact_account':
+      return `Account '${reference}' only matches by email domain or partial name, which isn't enough for a write`;
+    default:
+      return `No account matches '${reference}'`;
+  }
+}
+
+/**
+ * An account reference that matches no account, or more than one, or (for
+ * writes) only matches loosely. The candidates are the accounts it could
+ * mean, best match first.
+ */
+export class AccountReferenceError extends Error {
+  readonly kind: AccountReferenceErrorKind;
+  readonly candidates: ReferencedAccount[];
+  readonly hint: string;
+
+  constructor(
+    readonly workspace: Workspace,
+    readonly reference: string,
+    matches: ReferencedAccount[],
+    kind: AccountReferenceErrorKind = matches.length > 0 ? 'ambiguous_account' : 'unknown_account'
+  ) {
+    super(accountReferenceMessage(kind, reference, matches.length));
+    this.name = 'AccountReferenceError';
+    this.kind = kind;
+    this.candidates = matches.slice(0, MAX_CANDIDATES);
+    this.hint = kind === 'unknown_account'
+      ? `No account in workspace '${workspace.name}' has this ID, external ID, name or email domain. Look it up with search_accounts.`
+      : 'Call again with the id of one of the candidates as accountId.';
+  }
+
+  /**
+   * Details for tool results and MCP error data
+   */
+  toJSON() {
+    return {
+      kind: this.kind,
+      reference: this.reference,
+      workspace: this.workspace.name,
+      candidates: this.candidates.map(account => ({
+        id: account.id,
+        name: account.name,
+        externalId: account.externalId ?? null
+      })),
+      hint: this.hint
+    };
+  }
+}
+
+/**
+ * Say what was being attempted when an error happened, keeping the
+ * original error as the cause so its details aren't lost
+ */
+export function failure(action: string, error: unknown): Error {
+  return new Error(`${action}: ${error instanceof Error ? error.message : error}`, { cause: error });
+}
+
+/**
+ * The Vitally API error behind an error, if any, following causes
+ */
+export function findApiError(error: unknown): VitallyApiError | undefined {
+  for (let current = error; current instanceof Error; current = current.cause) {
+    if (current instanceof VitallyApiError) {
+      return current;
+    }
+  }
+  return undefined;
+}
+
+function mcpErrorCode(kind: ApiErrorKind): ErrorCode {
+  switch (kind) {
+    case 'not_found':
+    case 'invalid_request':
+      return ErrorCode.InvalidParams;
+    case 'unauthorized':
+    case 'forbidden':
+      return ErrorCode.InvalidRequest;
+    default:
+      return ErrorCode.InternalError;
+  }
+}
+
+/**
+ * An error as an MCP error, for handlers other than tools, prefixed with
+ * what was being attempted. Vitally API errors get a matching error code
+ * and their details as error data; MCP errors pass through unchanged.
+ */
+export function toMcpError(error: unknown, action?: string): McpError {
+  if (error instanceof McpError) {
+    return error;
+  }
+  const message = `${action ? `${action}: ` : ''}${error instanceof Error ? error.message : error}`;
+  if (error instanceof AccountReferenceError) {
+    return new McpError(ErrorCode.InvalidParams, `${message}. ${error.hint}`, error.toJSON());
+  }
+  const apiError = findApiError(error);
+  if (!apiError) {
+    return new McpError(ErrorCode.InternalError, message);
+  }
+  return new McpError(mcpErrorCode(apiError.kind), `${message}. ${apiError.hint}`, apiError.toJSON());
+}
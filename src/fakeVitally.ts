@@ -0,0 +1,310 @@
+/**
+ * Copyright (c) 2024 John Jung
+ *
+ * In-memory fake of the Vitally REST API, used in demo mode.
+ *
+ * State is loaded from the JSON fixture files in VITALLY_FIXTURES_DIR
+ * (default: the package's fixtures/ directory) and then kept per workspace
+ * for the life of the process, so notes created and traits updated through
+ * the server show up in later reads. Responses follow the real API: lists
+ * are paginated with `limit` and a `next` cursor passed back as `from`, and
+ * unknown records answer 404.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import { fileURLToPath } from 'url';
+
+type FakeRecord = Record<string, any>;
+
+export interface FakeVitallyFixtures {
+  accounts: FakeRecord[];
+  users: FakeRecord[];
+  conversations: FakeRecord[];
+  tasks: FakeRecord[];
+  notes: FakeRecord[];
+  npsResponses: FakeRecord[];
+  projects: FakeRecord[];
+  customFields: FakeRecord[];
+  healthScores: FakeRecord[];
+}
+
+export interface FakeResponse {
+  status: number;
+  statusText: string;
+  body: unknown;
+}
+
+export interface FakeVitally {
+  request(method: string, endpoint: string, body?: any): FakeResponse;
+}
+
+const FIXTURE_NAMES: Array<keyof FakeVitallyFixtures> = [
+  'accounts',
+  'users',
+  'conversations',
+  'tasks',
+  'notes',
+  'npsResponses',
+  'projects',
+  'customFields',
+  'healthScores',
+];
+
+// Vitally's default and maximum page sizes
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+/**
+ * Directory the fixtures are loaded from
+ */
+export function fixturesDir(env: NodeJS.ProcessEnv = process.env): string {
+  if (env.VITALLY_FIXTURES_DIR) {
+    return path.resolve(env.VITALLY_FIXTURES_DIR);
+  }
+  // build/fakeVitally.js -> fixtures/
+  return path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..', 'fixtures');
+}
+
+/**
+ * Read every fixture file in a directory. A missing file is an empty list.
+ */
+export function loadFixtures(dir: string): FakeVitallyFixtures {
+  const fixtures = {} as FakeVitallyFixtures;
+
+  for (const name of FIXTURE_NAMES) {
+    const file = path.join(dir, `${name}.json`);
+    if (!fs.existsSync(file)) {
+      fixtures[name] = [];
+      continue;
+    }
+
+    const records = JSON.parse(fs.readFileSync(file, 'utf8'));
+    if (!Array.isArray(records)) {
+      throw new Error(`Fixture file ${file} must contain a JSON array`);
+    }
+    fixtures[name] = records;
+  }
+
+  return fixtures;
+}
+
+// Responses are copies, so callers can't change the fake's state by mutating them
+function ok(body: unknown, status = 200): FakeResponse {
+  return { status, statusText: status === 201 ? 'Created' : 'OK', body: structuredClone(body) };
+}
+
+function notFound(message: string): FakeResponse {
+  return { status: 404, statusText: 'Not Found', body: { error: message } };
+}
+
+function badRequest(message: string): FakeResponse {
+  return { status: 400, statusText: 'Bad Request', body: { error: message } };
+}
+
+function encodeCursor(offset: number): string {
+  return Buffer.from(JSON.stringify({ offset })).toString('base64url');
+}
+
+function decodeCursor(cursor: string): number | undefined {
+  try {
+    const { offset } = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    return Number.isInteger(offset) && offset >= 0 ? offset : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Sort newest first by `sortBy` and return the page selected by `limit`
+ * and the `from` cursor
+ */
+function paginate(records: FakeRecord[], query: URLSearchParams): FakeResponse {
+  const limit = query.has('limit') ? Number(query.get('limit')) : DEFAULT_PAGE_SIZE;
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    return badRequest(`limit must be between 1 and ${MAX_PAGE_SIZE}`);
+  }
+
+  const from = query.get('from');
+  const offset = from ? decodeCursor(from) : 0;
+  if (offset === undefined) {
+    return badRequest('Invalid pagination cursor');
+  }
+
+  const sortBy = query.get('sortBy') || 'createdAt';
+  if (sortBy !== 'createdAt' && sortBy !== 'updatedAt') {
+    return badRequest('sortBy must be createdAt or updatedAt');
+  }
+
+  const sorted = [...records].sort((a, b) => String(b[sortBy] ?? '').localeCompare(String(a[sortBy] ?? '')));
+  const results = sorted.slice(offset, offset + limit);
+  const next = offset + limit < sorted.length ? encodeCursor(offset + limit) : null;
+  return ok({ results, next });
+}
+
+function matchesAccountStatus(account: FakeRecord, status: string): boolean {
+  switch (status) {
+    case 'churned':
+      return !!account.churnedAt;
+    case 'activeOrChurned':
+      return true;
+    default:
+      return !account.churnedAt;
+  }
+}
+
+/**
+ * Create a fake Vitally API with its own copy of the fixture data
+ */
+export function createFakeVitally(fixtures: FakeVitallyFixtures): FakeVitally {
+  const data: FakeVitallyFixtures = structuredClone(fixtures);
+
+  // Like Vitally, accounts can be looked up by their external ID too
+  const findAccount = (id: string) =>
+    data.accounts.find(account => account.id === id) ?? data.accounts.find(account => account.externalId === id);
+  const forAccount = (records: FakeRecord[], accountId: string) =>
+    records.filter(record => record.accountId === accountId);
+
+  function accountSubresource(account: FakeRecord, resource: string, method: string, query: URLSearchParams, body: any): FakeResponse {
+    switch (resource) {
+      case 'healthScores': {
+        const scores = data.healthScores.find(score => score.accountId === account.id);
+        return scores ? ok(scores) : notFound(`No health scores for account ${account.id}`);
+      }
+
+      case 'conversations':
+        return paginate(forAccount(data.conversations, account.id), query);
+
+      case 'tasks': {
+        const status = query.get('status');
+        const tasks = forAccount(data.tasks, account.id).filter(task => !status || task.status === status);
+        return paginate(tasks, query);
+      }
+
+      case 'notes': {
+        if (method === 'POST') {
+          if (!body?.content || typeof body.content !== 'string') {
+            return badRequest('content is required');
+          }
+          const now = new Date().toISOString();
+          const note = {
+            id: randomUUID(),
+            accountId: account.id,
+            content: body.content,
+            createdAt: now,
+            updatedAt: now
+          };
+          data.notes.push(note);
+          return ok({ ...note, account: { id: account.id, name: account.name } }, 201);
+        }
+        return paginate(forAccount(data.notes, account.id), query);
+      }
+
+      case 'npsResponses':
+        return paginate(forAccount(data.npsResponses, account.id), query);
+
+      case 'projects':
+        return paginate(forAccount(data.projects, account.id), query);
+
+      case 'users':
+        return paginate(forAccount(data.users, account.id), query);
+
+      default:
+        return notFound(`Unknown account resource: ${resource}`);
+    }
+  }
+
+  function updateAccount(account: FakeRecord, body: any): FakeResponse {
+    if (!body || typeof body !== 'object') {
+      return badRequest('Request body must be an object');
+    }
+
+    const { traits, ...fields } = body;
+    const merged = { ...account.traits };
+    for (const [key, value] of Object.entries(traits || {})) {
+      // Setting a trait to null removes it
+      if (value === null) {
+        delete merged[key];
+      } else {
+        merged[key] = value;
+      }
+    }
+
+    Object.assign(account, fields, { traits: merged, updatedAt: new Date().toISOString() });
+    return ok(account);
+  }
+
+  function request(method: string, endpoint: string, body?: any): FakeResponse {
+    const url = new URL(endpoint, 'http://vitally.invalid');
+    const segments = url.pathname.split('/').filter(Boolean).map(decodeURIComponent);
+    const query = url.searchParams;
+
+    if (segments[0] !== 'resources') {
+      return notFound(`Unknown endpoint: ${url.pathname}`);
+    }
+
+    const [, resource, id, subresource] = segments;
+
+    if (resource === 'accounts') {
+      if (!id) {
+        if (method !== 'GET') {
+          return notFound(`Unsupported method ${method} for ${url.pathname}`);
+        }
+        const status = query.get('status') || 'active';
+        return paginate(data.accounts.filter(account => matchesAccountStatus(account, status)), query);
+      }
+
+      const account = findAccount(id);
+      if (!account) {
+        return notFound(`Account ${id} not found`);
+      }
+      if (subresource) {
+        return accountSubresource(account, subresource, method, query, body);
+      }
+      if (method === 'PUT') {
+        return updateAccount(account, body);
+      }
+      return ok(account);
+    }
+
+    if (resource === 'notes' && id) {
+      const note = data.notes.find(candidate => candidate.id === id);
+      if (!note) {
+        return notFound(`Note ${id} not found`);
+      }
+      const account = findAccount(note.accountId);
+      return ok(account ? { ...note, account: { id: account.id, name: account.name } } : note);
+    }
+
+    if (resource === 'users' && id === 'search') {
+      const email = query.get('email')?.toLowerCase();
+      const externalId = query.get('externalId');
+      const emailSubdomain = query.get('emailSubdomain')?.toLowerCase();
+      const users = data.users.filter(user => {
+        const userEmail = String(user.email || '').toLowerCase();
+        if (email && userEmail !== email) return false;
+        if (externalId && user.externalId !== externalId) return false;
+        if (emailSubdomain && !userEmail.endsWith(`@${emailSubdomain}`)) return false;
+        return true;
+      });
+      return paginate(users, query);
+    }
+
+    if (resource === 'users' && id) {
+      const user = data.users.find(candidate => candidate.id === id);
+      return user ? ok(user) : notFound(`User ${id} not found`);
+    }
+
+    if (resource === 'customFields' && !id) {
+      const model = query.get('model');
+      return ok(data.customFields
+        .filter(field => !model || field.model === model)
+        .map(({ model: _model, ...field }) => field));
+    }
+
+    return notFound(`Unknown endpoint: ${url.pathname}`);
+  }
+
+  return { request };
+}
@@ -0,0 +1,177 @@
+/**
+ * Copyright (c) 2024 John Jung
+ *
+ * Shared rendering of list-style tool results as JSON, Markdown tables or
+ * CSV, selected by the tools' `format` argument, plus field projection and
+ * size budgeting for tools whose output can outgrow the model's context.
+ */
+
+import { JsonSchema } from './registry.js';
+
+export type OutputFormat = 'json' | 'markdown' | 'csv';
+
+/**
+ * The `format` argument, for the input schema of list-style tools
+ */
+export const FORMAT_PROPERTY: JsonSchema = {
+  type: 'string',
+  description: "Output format: 'json' (default), 'markdown' (a table) or 'csv'",
+  enum: ['json', 'markdown', 'csv'],
+  default: 'json'
+};
+
+export interface ListResult {
+  // Name of the list in JSON output, e.g. 'tasks'
+  key: string;
+  rows: Array<Record<string, unknown>>;
+  // Fields reported alongside the list, e.g. count (not included in CSV)
+  summary?: Record<string, unknown>;
+  // Shown instead of an empty Markdown table, and instead of an empty CSV
+  // when there are no columns to head it with
+  emptyMessage?: string;
+  // CSV header for an empty list, which has no rows to take columns from
+  columns?: string[];
+}
+
+/**
+ * Columns of a table: every field of every row, in first-seen order
+ */
+function columnsOf(rows: Array<Record<string, unknown>>): string[] {
+  const columns = new Set<string>();
+  for (const row of rows) {
+    Object.keys(row).forEach(column => columns.add(column));
+  }
+  return [...columns];
+}
+
+/**
+ * A value as a single table cell. Nested values (e.g. traits) are JSON.
+ */
+function cellText(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+function markdownCell(value: unknown): string {
+  return cellText(value).replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>');
+}
+
+function csvCell(value: unknown): string {
+  const text = cellText(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function renderMarkdown(result: ListResult): string {
+  const lines: string[] = [];
+
+  for (const [name, value] of Object.entries(result.summary || {})) {
+    if (value !== undefined) {
+      lines.push(`**${name}:** ${markdownCell(value)}  `);
+    }
+  }
+  if (lines.length > 0) {
+    lines.push('');
+  }
+
+  if (result.rows.length === 0) {
+    lines.push(`_${result.emptyMessage || `No ${result.key} found`}_`);
+    return lines.join('\n');
+  }
+
+  const columns = columnsOf(result.rows);
+  lines.push(`| ${columns.join(' | ')} |`);
+  lines.push(`| ${columns.map(() => '---').join(' | ')} |`);
+  for (const row of result.rows) {
+    lines.push(`| ${columns.map(column => markdownCell(row[column])).join(' | ')} |`);
+  }
+  return lines.join('\n');
+}
+
+function renderCsv(result: ListResult): string {
+  const columns = result.rows.length > 0 ? columnsOf(result.rows) : result.columns || [];
+  if (columns.length === 0) {
+    return result.emptyMessage || `No ${result.key} found`;
+  }
+
+  const lines = [columns.map(csvCell).join(',')];
+  for (const row of result.rows) {
+    lines.push(columns.map(column => csvCell(row[column])).join(','));
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Render a list result in the requested format
+ */
+export function renderList(format: OutputFormat, result: ListResult): string {
+  switch (format) {
+    case 'markdown':
+      return renderMarkdown(result);
+    case 'csv':
+      return renderCsv(result);
+    default:
+      return JSON.stringify({ ...result.summary, [result.key]: result.rows }, null, 2);
+  }
+}
+
+/**
+ * Keep only the given fields of a record. `traits.<key>` selects a single
+ * trait, e.g. `traits.vitally.custom.plan`, and `traits` selects them all.
+ */
+export function selectFields(record: Record<string, any>, fields: string[]): Record<string, unknown> {
+  const selected: Record<string, any> = {};
+
+  for (const field of fields) {
+    if (field.startsWith('traits.')) {
+      const key = field.slice('traits.'.length);
+      selected.traits = { ...selected.traits, [key]: record.traits?.[key] };
+    } else {
+      selected[field] = record[field];
+    }
+  }
+
+  return selected;
+}
+
+/**
+ * Find how many of `total` rows fit in `maxChars` once rendered. At least
+ * one row is always included so paging through oversized rows still makes
+ * progress.
+ */
+export function fitToBudget(total: number, maxChars: number, render: (count: number) => string): number {
+  if (total <= 1 || render(total).length <= maxChars) {
+    return total;
+  }
+
+  // Binary search for the largest count that fits
+  let low = 1;
+  let high = total - 1;
+  let best = 1;
+  while (low <= high) {
+    const middle = Math.floor((low + high) / 2);
+    if (render(middle).length <= maxChars) {
+      best = middle;
+      low = middle + 1;
+    } else {
+      high = middle - 1;
+    }
+  }
+  return best;
+}
+
+/**
+ * Opaque continuation cursor for resuming a truncated result
+ */
+export function encodeCursor(state: Record<string, unknown>): string {
+  return Buffer.from(JSON.stringify(state)).toString('base64url');
+}
+
+export function decodeCursor<T>(cursor: string): T {
+  try {
+    return JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8')) as T;
+  } catch {
+    throw new Error('Invalid cursor: pass the nextCursor value from a previous call unchanged');
+  }
+}
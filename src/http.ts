@@ -0,0 +1,158 @@
+/**
+ * Copyright (c) 2024 John Jung
+ *
+ * HTTP transport for the Vitally MCP server.
+ *
+ * Serves MCP over Server-Sent Events so a single shared process (e.g. one
+ * container for a whole team) can handle many clients at once:
+ * - GET  /sse                     opens a session and streams server messages
+ * - POST /messages?sessionId=...  delivers client messages for that session
+ * - GET  /health                  liveness probe for load balancers / Docker
+ *
+ * The process holds the team's Vitally key and exposes write tools, so
+ * /sse and /messages require `Authorization: Bearer <token>`. CORS headers
+ * are only sent when an allowed origin is configured.
+ */
+
+import * as http from 'http';
+import { createHash, timingSafeEqual } from 'crypto';
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { logToStderr, logger } from './logger.js';
+
+export interface HttpTransportOptions {
+  port: number;
+  host: string;
+  // Bearer token clients must send to open a session and post messages
+  token: string;
+  // Browser origin allowed to connect, or undefined to send no CORS headers
+  corsOrigin?: string;
+}
+
+const SSE_PATH = '/sse';
+const MESSAGES_PATH = '/messages';
+const HEALTH_PATH = '/health';
+
+/**
+ * Apply CORS headers to a response. Browser-based MCP clients need these to
+ * open the SSE stream and POST messages from another origin; without a
+ * configured origin, browsers on other origins are refused.
+ */
+function applyCors(res: http.ServerResponse, corsOrigin: string | undefined): void {
+  if (!corsOrigin) {
+    return;
+  }
+  res.setHeader('Access-Control-Allow-Origin', corsOrigin);
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+  if (corsOrigin !== '*') {
+    res.setHeader('Vary', 'Origin');
+  }
+}
+
+/**
+ * Whether a request carries the bearer token. Hashing both sides first
+ * makes the comparison constant-time whatever the token lengths.
+ */
+function isAuthorized(req: http.IncomingMessage, token: string): boolean {
+  const match = (req.headers.authorization || '').match(/^Bearer\s+(\S+)\s*$/i);
+  if (!match) {
+    return false;
+  }
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(match[1]), digest(token));
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * Start an HTTP server that exposes MCP over SSE.
+ *
+ * Each SSE connection gets its own MCP `Server` instance from `createServer`,
+ * since a server can only be connected to one transport at a time.
+ */
+export function startHttpServer(
+  createServer: () => Server,
+  options: HttpTransportOptions
+): Promise<http.Server> {
+  const sessions = new Map<string, SSEServerTransport>();
+  const startedAt = Date.now();
+
+  const httpServer = http.createServer(async (req, res) => {
+    applyCors(res, options.corsOrigin);
+
+    const url = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`);
+
+    try {
+      if (req.method === 'OPTIONS') {
+        res.writeHead(204).end();
+        return;
+      }
+
+      if (req.method === 'GET' && url.pathname === HEALTH_PATH) {
+        sendJson(res, 200, {
+          status: 'ok',
+          sessions: sessions.size,
+          uptimeSeconds: Math.round((Date.now() - startedAt) / 1000)
+        });
+        return;
+      }
+
+      if (!isAuthorized(req, options.token)) {
+        res.setHeader('WWW-Authenticate', 'Bearer');
+        sendJson(res, 401, { error: 'Missing or invalid bearer token' });
+        return;
+      }
+
+      if (req.method === 'GET' && url.pathname === SSE_PATH) {
+        const transport = new SSEServerTransport(MESSAGES_PATH, res);
+        const server = createServer();
+
+        sessions.set(transport.sessionId, transport);
+        // The server takes over the transport's callbacks, so hook its close
+        // instead, keeping its own cleanup (subscriptions, logging)
+        const closeServer = server.onclose;
+        server.onclose = () => {
+          closeServer?.();
+          sessions.delete(transport.sessionId);
+          // Not sent to clients: a session ID is enough to post into that session
+          logToStderr('info', `HTTP session closed: ${transport.sessionId}`);
+        };
+
+        await server.connect(transport);
+        logToStderr('info', `HTTP session opened: ${transport.sessionId}`);
+        return;
+      }
+
+      if (req.method === 'POST' && url.pathname === MESSAGES_PATH) {
+        const sessionId = url.searchParams.get('sessionId');
+        const transport = sessionId ? sessions.get(sessionId) : undefined;
+        if (!transport) {
+          sendJson(res, 404, { error: `Unknown session: ${sessionId}` });
+          return;
+        }
+
+        await transport.handlePostMessage(req, res);
+        return;
+      }
+
+      sendJson(res, 404, { error: 'Not found' });
+    } catch (error) {
+      logger.error(`handling HTTP request failed: ${error}`);
+      if (!res.headersSent) {
+        sendJson(res, 500, { error: String(error) });
+      }
+    }
+  });
+
+  return new Promise((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, () => {
+      logger.info(`Vitally MCP server listening on http://${options.host}:${options.port}${SSE_PATH}`);
+      resolve(httpServer);
+    });
+  });
+}
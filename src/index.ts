@@ -16,15 +16,90 @@
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import {
+  CallToolRequest,
   CallToolRequestSchema,
+  CompleteRequest,
+  CompleteRequestSchema,
+  ErrorCode,
+  GetPromptRequest,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ListResourcesRequest,
   ListResourcesRequestSchema,
   ListToolsRequestSchema,
+  McpError,
+  ReadResourceRequest,
   ReadResourceRequestSchema,
+  SetLevelRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
 } from "@modelcontextprotocol/sdk/types.js";
 import * as dotenv from 'dotenv';
 import * as path from 'path';
 import * as fs from 'fs';
 import fetch from 'node-fetch';
+import { startHttpServer } from './http.js';
+import { RequestScheduler, createRequestScheduler, schedulerOptionsFromEnv } from './scheduler.js';
+import {
+  AccountCacheEntry,
+  accountCacheOptionsFromEnv,
+  describeCacheEntry,
+  incrementalSince,
+  mergeAccounts,
+  readCacheFile,
+  syncNeeded,
+  writeCacheFile,
+} from './accountCache.js';
+import { createToolPolicy, toolPolicyConfigFromEnv } from './toolPolicy.js';
+import { confirmationsRequired, consumeConfirmationToken, issueConfirmationToken } from './confirmations.js';
+import {
+  AuditContext,
+  MUTATING_METHODS,
+  accountIdFromEndpoint,
+  appendAuditEntry,
+  readAuditLog,
+} from './audit.js';
+import { findTraitSnapshot, markSnapshotUndone, saveTraitSnapshot } from './undo.js';
+import { cassetteOptionsFromEnv, openCassette } from './cassette.js';
+import { DATE_EXPRESSION_HELP, isInRange, resolveDateRange } from './dateRange.js';
+import { CLI_USAGE, CliUsageError, formatToolResult, parseToolArguments, readStdin } from './cli.js';
+import { DoctorOptions, formatDoctorReport, runDoctor } from './doctor.js';
+import { CompletionCandidate, completeValues } from './completion.js';
+import { AccountReferenceError, VitallyApiError, failure, findApiError, toMcpError } from './errors.js';
+import {
+  ReferencedAccount,
+  exactNameMatches,
+  findById,
+  fuzzyNameMatches,
+  looksLikeVitallyId,
+  referencedDomain,
+  userAccountIds
+} from './accountReferences.js';
+import { DEFAULT_CLIENT_LOG_LEVEL, LogSink, addLogSink, logger, withLogSink } from './logger.js';
+import { PromptArgument, PromptDefinition, loadSection, renderPrompt, validatePromptArguments } from './prompts.js';
+import { isListedAccount, resourceListingOptionsFromEnv } from './resourceListing.js';
+import { createSubscriptionPoller, subscriptionOptionsFromEnv } from './subscriptions.js';
+import { FakeVitally, FakeVitallyFixtures, createFakeVitally, fixturesDir, loadFixtures } from './fakeVitally.js';
+import {
+  FORMAT_PROPERTY,
+  ListResult,
+  OutputFormat,
+  decodeCursor,
+  encodeCursor,
+  fitToBudget,
+  renderList,
+  selectFields,
+} from './format.js';
+import { JsonSchema, ObjectSchema, ToolDefinition, ToolResult, validateArguments } from './registry.js';
+import {
+  Workspace,
+  accountUri,
+  getWorkspace,
+  initWorkspaces,
+  listWorkspaces,
+  parseResourceUri,
+} from './workspaces.js';
 
 // Type definitions for Vitally API responses
 interface VitallyAccount {
@@ -57,6 +132,9 @@ interface VitallyAccount {
   [key: string]: any;
 }
 
+// Models that have custom traits
+const TRAIT_MODELS = ["accounts", "users", "notes", "tasks", "projects", "organizations"];
+
 interface VitallyCustomField {
   label: string;
   type: string;
@@ -146,54 +224,131 @@ interface VitallyNote {
 
 // Load environment variables
 const envPath = path.resolve(process.cwd(), '.env');
-if (fs.existsSync(envPath)) {
+const envFileLoaded = fs.existsSync(envPath);
+if (envFileLoaded) {
   dotenv.config({ path: envPath });
   console.error(`Loaded environment from ${envPath}`);
 } else {
   console.error(`Warning: No .env file found at ${envPath}`);
 }
 
-// Vitally API Configuration
-const VITALLY_SUBDOMAIN = process.env.VITALLY_API_SUBDOMAIN || 'nylas';
-const VITALLY_API_KEY = process.env.VITALLY_API_KEY;
-const VITALLY_DATA_CENTER = (process.env.VITALLY_DATA_CENTER || 'US').toUpperCase();
-
-// API Base URL based on data center
-const API_BASE_URL = VITALLY_DATA_CENTER === 'EU'
-  ? 'https://rest.vitally-eu.io'
-  : `https://${VITALLY_SUBDOMAIN}.rest.vitally.io`;
+// Vitally API Configuration (one or more named workspaces)
+const WORKSPACES = initWorkspaces();
 
 // Validation
-if (!VITALLY_API_KEY || VITALLY_API_KEY === 'your_api_key_here') {
-  console.error('Error: VITALLY_API_KEY is not set or is using the default placeholder value');
-  console.error('Please update your .env file with a valid Vitally API key');
-
-  // Mock API key for demo mode
-  const DEMO_MODE = true;
-  if (DEMO_MODE) {
-    console.error('Starting in DEMO MODE with mock data');
-  } else {
-    process.exit(1);
+for (const workspace of WORKSPACES) {
+  if (workspace.demoMode) {
+    console.error(`Error: API key for workspace '${workspace.name}' is not set or is using the default placeholder value`);
+    console.error('Please update your .env file with a valid Vitally API key');
+    console.error(`Starting workspace '${workspace.name}' in DEMO MODE with fixture data`);
+  }
+}
+
+// Cassette for recording or replaying Vitally API traffic, if enabled
+const CASSETTE_OPTIONS = cassetteOptionsFromEnv();
+const cassette = CASSETTE_OPTIONS ? openCassette(CASSETTE_OPTIONS) : null;
+if (cassette) {
+  console.error(cassette.mode === 'record'
+    ? `Recording Vitally API traffic to ${cassette.file}`
+    : `Replaying Vitally API traffic from ${cassette.file} (no network access)`);
+}
+
+// Request schedulers, one per workspace since Vitally rate limits per API key
+const SCHEDULER_OPTIONS = schedulerOptionsFromEnv();
+const schedulers = new Map<string, RequestScheduler>();
+
+function getScheduler(workspace: Workspace): RequestScheduler {
+  let scheduler = schedulers.get(workspace.name);
+  if (!scheduler) {
+    scheduler = createRequestScheduler(SCHEDULER_OPTIONS);
+    schedulers.set(workspace.name, scheduler);
+  }
+  return scheduler;
+}
+
+// Fake Vitally backends for demo workspaces, each with its own copy of the fixtures
+let demoFixtures: FakeVitallyFixtures | undefined;
+const fakeBackends = new Map<string, FakeVitally>();
+
+function getFakeVitally(workspace: Workspace): FakeVitally {
+  let fake = fakeBackends.get(workspace.name);
+  if (!fake) {
+    demoFixtures ??= loadFixtures(fixturesDir());
+    fake = createFakeVitally(demoFixtures);
+    fakeBackends.set(workspace.name, fake);
   }
+  return fake;
 }
 
-// API Authentication header
-const AUTH_HEADER = `Basic ${Buffer.from(`${VITALLY_API_KEY}:`).toString('base64')}`;
+/**
+ * Parse a response body as JSON, keeping non-JSON bodies (e.g. an HTML
+ * error page from a proxy) as text
+ */
+async function readResponseBody(response: { text(): Promise<string> }): Promise<unknown> {
+  const text = await response.text();
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
 
 /**
- * Helper function to make authenticated requests to the Vitally API
+ * Helper function to make authenticated requests to the Vitally API.
+ * Requests go through the workspace's scheduler, which paces them within
+ * the rate limit and retries throttled or failed calls. Writes are recorded
+ * in the audit log, with whatever the caller knows about them in `audit`.
+ * When a cassette is open, real traffic is recorded to it, or served from it
+ * in place of the network (and of demo mode) when replaying.
  */
-async function callVitallyAPI<T>(endpoint: string, method = 'GET', body?: any): Promise<T> {
+async function callVitallyAPI<T>(workspace: Workspace, endpoint: string, method = 'GET', body?: any, audit?: AuditContext): Promise<T> {
+  const recordAudit = (status: number | null, error?: string) => {
+    if (!MUTATING_METHODS.has(method)) {
+      return;
+    }
+    appendAuditEntry({
+      timestamp: new Date().toISOString(),
+      workspace: workspace.name,
+      tool: audit?.tool ?? 'unknown',
+      method,
+      endpoint,
+      accountId: audit?.accountId ?? accountIdFromEndpoint(endpoint),
+      arguments: audit?.arguments ?? null,
+      previous: audit?.previous ?? null,
+      status,
+      ok: !error,
+      ...(error ? { error } : {}),
+      ...(workspace.demoMode ? { demo: true } : {})
+    });
+  };
+
+  // Replayed requests never reach Vitally, so they aren't audited
+  if (cassette?.mode === 'replay') {
+    const response = cassette.replay(workspace.name, method, endpoint, body);
+    if (response.status >= 400) {
+      throw new VitallyApiError(workspace, method, endpoint, response.status, response.statusText, response.body);
+    }
+    return response.body as T;
+  }
+
   // Check if we're in demo mode due to missing API key
-  if (!VITALLY_API_KEY || VITALLY_API_KEY === 'your_api_key_here') {
-    return mockApiResponse(endpoint, method, body);
+  if (workspace.demoMode) {
+    logger.debug(`DEMO MODE: Fake API call to ${endpoint} [${method}]`);
+    const response = getFakeVitally(workspace).request(method, endpoint, body);
+    if (response.status >= 400) {
+      const error = new VitallyApiError(workspace, method, endpoint, response.status, response.statusText, response.body);
+      recordAudit(response.status, error.message);
+      throw error;
+    }
+    recordAudit(response.status);
+    return response.body as T;
   }
 
-  const url = `${API_BASE_URL}${endpoint}`;
+  const url = `${workspace.baseUrl}${endpoint}`;
   const options: any = {
     method,
     headers: {
-      'Authorization': AUTH_HEADER,
+      'Authorization': workspace.authHeader,
       'Content-Type': 'application/json',
     },
   };
@@ -202,40 +357,78 @@ async function callVitallyAPI<T>(endpoint: string, method = 'GET', body?: any):
     options.body = JSON.stringify(body);
   }
 
+  let status: number | null = null;
+  let failureMessage: string | undefined;
   try {
-    const response = await fetch(url, options);
+    const response = await getScheduler(workspace).run(
+      () => fetch(url, options),
+      method !== 'POST'
+    );
+    status = response.status;
+
+    const data = await readResponseBody(response);
+    if (cassette?.mode === 'record') {
+      cassette.record(
+        { workspace: workspace.name, method, endpoint, url, headers: options.headers, body },
+        { status: response.status, statusText: response.statusText, body: data }
+      );
+    }
 
     if (!response.ok) {
-      throw new Error(`API call failed: ${response.status} ${response.statusText}`);
+      throw new VitallyApiError(workspace, method, endpoint, response.status, response.statusText, data);
     }
 
-    const data = await response.json() as T;
-    return data;
+    return data as T;
   } catch (error) {
-    console.error(`Error calling Vitally API: ${error}`);
+    failureMessage = error instanceof Error ? error.message : String(error);
+    logger.error(`Vitally API call to ${endpoint} failed: ${error}`);
     throw error;
+  } finally {
+    recordAudit(status, failureMessage);
   }
 }
 
+/**
+ * Progress reporting and cancellation for a long-running request, passed
+ * down to every fetchAllPages call it makes
+ */
+interface FetchControl {
+  // Aborted when the client cancels the request
+  signal?: AbortSignal;
+  // Called after each page with the number of records fetched so far
+  onPage?: (endpoint: string, page: number, records: number) => void;
+}
+
 /**
  * Fetch all pages from a paginated Vitally API endpoint.
  * Uses cursor-based pagination via the `next` / `from` pattern.
  * 
+ * @param workspace - The Vitally workspace to query
  * @param endpoint  - The API path (without query string), e.g. '/resources/accounts'
  * @param params    - Additional query parameters (e.g. { status: 'active' })
  * @param maxPages  - Safety limit to prevent runaway loops (default: 50)
+ * @param stopWhen  - Optional check run on each page; returning true stops after that page
+ * @param control   - Progress reporting and cancellation for the request this fetch is part of
  * @returns All results concatenated across every page
  */
 async function fetchAllPages<T>(
+  workspace: Workspace,
   endpoint: string,
   params: Record<string, string> = {},
-  maxPages: number = 50
+  maxPages: number = 50,
+  stopWhen?: (page: T[]) => boolean,
+  control: FetchControl = {}
 ): Promise<T[]> {
   const allResults: T[] = [];
   let cursor: string | null = null;
   let pageCount = 0;
+  let stopped = false;
 
   do {
+    if (control.signal?.aborted) {
+      throw new Error(`Cancelled after fetching ${pageCount} page${pageCount === 1 ? '' : 's'} of ${endpoint}`);
+    }
+
     const queryParams = new URLSearchParams(params);
     queryParams.set('limit', '100'); // Vitally max per page
     if (cursor) {
@@ -243,7 +436,7 @@ async function fetchAllPages<T>(
     }
 
     const url = `${endpoint}?${queryParams.toString()}`;
-    const response = await callVitallyAPI<VitallyPaginatedResponse<T>>(url);
+    const response = await callVitallyAPI<VitallyPaginatedResponse<T>>(workspace, url);
 
     if (response.results && response.results.length > 0) {
       allResults.push(...response.results);
@@ -251,619 +444,795 @@ async function fetchAllPages<T>(
 
     cursor = response.next;
     pageCount++;
+    stopped = !!stopWhen?.(response.results || []);
+    control.onPage?.(endpoint, pageCount, allResults.length);
+  } while (cursor && !stopped && pageCount < maxPages);
 
-    // Small delay between pages to be respectful of rate limits (1000 req/min)
-    if (cursor) {
-      await new Promise(resolve => setTimeout(resolve, 100));
-    }
-  } while (cursor && pageCount < maxPages);
-
-  if (cursor) {
-    console.error(`Warning: fetchAllPages hit maxPages limit (${maxPages}) for ${endpoint}. Some results may be missing.`);
+  if (cursor && !stopped) {
+    logger.warning(`fetchAllPages hit maxPages limit (${maxPages}) for ${endpoint}. Some results may be missing.`);
   }
 
   return allResults;
 }
 
+// Position in a cached account list, carried by refresh_accounts' nextCursor
+interface AccountsCursor {
+  status: string;
+  syncedAt: string;
+  offset: number;
+}
+
+// Cache for accounts (persisted to disk, per workspace and status) and users (per workspace)
+const ACCOUNT_CACHE_OPTIONS = accountCacheOptionsFromEnv();
+const accountsCache = new Map<string, AccountCacheEntry<VitallyAccount>>();
+const usersCache = new Map<string, VitallyUser[]>();
+
+// First pages fetched by refresh_accounts with fetchAll: false, kept apart
+// so a partial list never replaces a full one
+const firstPageCache = new Map<string, AccountCacheEntry<VitallyAccount>>();
+
+// The accounts that searches, name lookups, account references and
+// completions work from, whatever status refresh_accounts was last asked for
+const LOOKUP_STATUS = 'active';
+
+const ACCOUNT_STATUSES = ['active', 'churned', 'activeOrChurned'];
+
+function accountCacheKey(workspace: Workspace, status: string): string {
+  return `${workspace.name}:${status}`;
+}
+
 /**
- * Mock API response for demo mode when API key is not available
+ * Get a workspace's account cache entry for a status, loading it from disk
+ * on first use. Demo workspaces are never persisted so demo data can't leak
+ * into a real cache.
  */
-function mockApiResponse<T>(endpoint: string, method = 'GET', body?: any): T {
-  console.error(`DEMO MODE: Mock API call to ${endpoint} [${method}]`);
-
-  // Mock accounts
-  const mockAccounts = [
-    { id: "1", name: "Acme Corporation", externalId: "acme-corp" },
-    { id: "2", name: "Globex Industries", externalId: "globex" },
-    { id: "3", name: "Initech Technologies", externalId: "initech" },
-    { id: "4", name: "Umbrella Corporation", externalId: "umbrella" },
-    { id: "5", name: "Stark Industries", externalId: "stark" }
-  ];
-
-  // Mock users
-  const mockUsers = [
-    { id: "101", name: "John Doe", email: "john@acme-corp.com", externalId: "user-101", accountId: "1" },
-    { id: "102", name: "Jane Smith", email: "jane@globex.com", externalId: "user-102", accountId: "2" },
-    { id: "103", name: "Mike Johnson", email: "mike@initech.com", externalId: "user-103", accountId: "3" }
-  ];
-
-  // Handle different endpoints
-  if (endpoint === '/resources/accounts') {
-    return {
-      results: mockAccounts,
-      next: null
-    } as unknown as T;
+function getAccountCacheEntry(workspace: Workspace, status: string = LOOKUP_STATUS): AccountCacheEntry<VitallyAccount> | undefined {
+  const key = accountCacheKey(workspace, status);
+  let entry = accountsCache.get(key);
+  if (!entry && !workspace.demoMode) {
+    entry = readCacheFile<VitallyAccount>(ACCOUNT_CACHE_OPTIONS, workspace.name, status);
+    if (entry) {
+      accountsCache.set(key, entry);
+    }
   }
+  return entry;
+}
 
-  if (endpoint.startsWith('/resources/accounts/') && endpoint.endsWith('/healthScores')) {
-    const accountId = endpoint.split('/')[3];
-    return {
-      overallHealth: 85,
-      components: [
-        { name: "Product Usage", score: 90 },
-        { name: "Support Tickets", score: 75 },
-        { name: "Billing Status", score: 95 }
-      ],
-      accountId
-    } as unknown as T;
-  }
-
-  if (endpoint.startsWith('/resources/accounts/') && !endpoint.includes('/')) {
-    const accountId = endpoint.split('/')[3];
-    const account = mockAccounts.find(a => a.id === accountId);
-    if (account) {
-      return {
-        ...account,
-        traits: { "vitally.custom.plan": "enterprise", "vitally.custom.deploymentModel": "cloud" },
-        healthScore: 8,
-        mrr: 5000,
-        npsScore: 45,
-        usersCount: 12,
-        lastSeenTimestamp: "2024-01-15T10:00:00Z",
-        nextRenewalDate: "2025-06-01T00:00:00Z",
-        csmId: "csm-1",
-        segments: [{ id: "seg-1", name: "Enterprise" }]
-      } as unknown as T;
+interface AccountSync {
+  mode: 'incremental' | 'full';
+  // Signal of the request that started the sync, which cancels it
+  signal?: AbortSignal;
+  entry: Promise<AccountCacheEntry<VitallyAccount>>;
+}
+
+// Syncs in progress, by cache key, so callers arriving together (e.g.
+// completions on every keystroke) share one crawl instead of starting one each
+const syncsInProgress = new Map<string, AccountSync>();
+
+/**
+ * Bring a workspace's account cache for a status up to date. A full sync
+ * fetches every page; an incremental sync only fetches accounts updated
+ * since the last sync (newest first), whatever their status, and merges
+ * them into the cached list. Callers join a sync of the same cache that is
+ * already running, unless they asked for a full sync and it's incremental.
+ */
+async function syncAccounts(
+  workspace: Workspace,
+  status: string,
+  mode: 'incremental' | 'full',
+  control?: FetchControl
+): Promise<AccountCacheEntry<VitallyAccount>> {
+  const key = accountCacheKey(workspace, status);
+  const running = syncsInProgress.get(key);
+
+  if (running) {
+    try {
+      const entry = await running.entry;
+      if (running.mode === 'full' || mode === 'incremental') {
+        return entry;
+      }
+    } catch (error) {
+      // A sync cancelled by the request that started it is started again
+      // for the requests still waiting; any other failure is theirs too
+      if (!running.signal?.aborted || control?.signal?.aborted) {
+        throw error;
+      }
     }
-    return account as unknown as T;
+    return syncAccounts(workspace, status, mode, control);
   }
 
-  if (endpoint.startsWith('/resources/users/search')) {
-    return {
-      results: mockUsers,
-      next: null
-    } as unknown as T;
-  }
+  // Forgotten as soon as it settles, before anyone awaiting it carries on
+  const entry = runAccountSync(workspace, status, mode, control).finally(() => syncsInProgress.delete(key));
+  syncsInProgress.set(key, { mode, signal: control?.signal, entry });
+  return entry;
+}
 
-  if (endpoint.startsWith('/resources/accounts/') && endpoint.includes('/conversations')) {
-    return {
-      results: [
-        { id: "c1", subject: "Product Feedback", createdAt: "2023-01-15T10:30:00Z", updatedAt: "2023-01-16T15:45:00Z" },
-        { id: "c2", subject: "Support Question", createdAt: "2023-02-22T09:15:00Z", updatedAt: "2023-02-23T11:30:00Z" }
-      ],
-      next: null
-    } as unknown as T;
+/**
+ * Run one sync of a workspace's account cache for a status
+ */
+async function runAccountSync(
+  workspace: Workspace,
+  status: string,
+  mode: 'incremental' | 'full',
+  control?: FetchControl
+): Promise<AccountCacheEntry<VitallyAccount>> {
+  const previous = getAccountCacheEntry(workspace, status);
+  const now = new Date().toISOString();
+  let entry: AccountCacheEntry<VitallyAccount>;
+
+  if (mode === 'incremental' && previous?.complete) {
+    const since = Date.parse(incrementalSince(previous));
+    const isChanged = (account: VitallyAccount) => !!account.updatedAt && Date.parse(account.updatedAt) >= since;
+    const changed = await fetchAllPages<VitallyAccount>(
+      workspace,
+      '/resources/accounts',
+      // Every status, so accounts that churned or were reactivated are seen and moved
+      { status: 'activeOrChurned', sortBy: 'updatedAt' },
+      50,
+      page => !page.every(isChanged),
+      control
+    );
+    const updated = changed.filter(isChanged);
+
+    entry = {
+      ...previous,
+      lastSyncAt: now,
+      accounts: mergeAccounts(previous.accounts, updated, status)
+    };
+  } else {
+    entry = {
+      workspace: workspace.name,
+      status,
+      complete: true,
+      lastFullSyncAt: now,
+      lastSyncAt: now,
+      accounts: await fetchAllPages<VitallyAccount>(workspace, '/resources/accounts', { status }, 50, undefined, control)
+    };
   }
 
-  if (endpoint.startsWith('/resources/accounts/') && endpoint.includes('/tasks')) {
-    return {
-      results: [
-        { id: "t1", title: "Follow-up Call", description: "Schedule follow-up for new feature", status: "open", createdAt: "2023-03-10T14:20:00Z", updatedAt: "2023-03-10T14:20:00Z" },
-        { id: "t2", title: "Renewal Discussion", description: "Discuss upcoming renewal", status: "completed", createdAt: "2023-02-05T11:00:00Z", updatedAt: "2023-02-28T16:45:00Z" }
-      ],
-      next: null
-    } as unknown as T;
+  accountsCache.set(accountCacheKey(workspace, status), entry);
+  if (!workspace.demoMode) {
+    writeCacheFile(ACCOUNT_CACHE_OPTIONS, entry);
   }
+  return entry;
+}
 
-  if (endpoint.startsWith('/resources/accounts/') && endpoint.includes('/notes') && method === 'POST') {
-    return {
-      id: "n1",
-      content: body.content,
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString()
-    } as unknown as T;
+/**
+ * Get the cached accounts of a status (active by default) for a workspace,
+ * syncing them first if the cache is missing or has expired
+ */
+async function getCachedAccounts(
+  workspace: Workspace,
+  control?: FetchControl,
+  status: string = LOOKUP_STATUS
+): Promise<VitallyAccount[]> {
+  let entry = getAccountCacheEntry(workspace, status);
+  const mode = syncNeeded(ACCOUNT_CACHE_OPTIONS, entry);
+  if (mode !== 'none') {
+    entry = await syncAccounts(workspace, status, mode, control);
   }
+  return entry!.accounts;
+}
 
-  if (endpoint === '/resources/customFields' || endpoint.startsWith('/resources/customFields?')) {
-    return [
-      { label: "Plan", type: "string", path: "vitally.custom.plan", createdAt: "2023-01-01T00:00:00Z" },
-      { label: "Deployment Model", type: "string", path: "vitally.custom.deploymentModel", createdAt: "2023-01-01T00:00:00Z" },
-      { label: "Entitlement Level", type: "string", path: "vitally.custom.entitlementLevel", createdAt: "2023-03-15T00:00:00Z" },
-      { label: "Product License", type: "string", path: "vitally.custom.productLicense", createdAt: "2023-03-15T00:00:00Z" }
-    ] as unknown as T;
+/**
+ * Resolve an account reference (Vitally ID, external ID, name or email
+ * domain) to the account's Vitally ID, following the order in
+ * accountReferences.ts. A reference that matches no account or several is
+ * never guessed at: it throws an AccountReferenceError with the candidates.
+ * With `exactOnly` (for writes), a domain or partial name match is refused
+ * in the same way, so a write never lands on an account picked by a guess.
+ */
+async function resolveAccountId(
+  workspace: Workspace,
+  reference: string,
+  control?: FetchControl,
+  exactOnly = false
+): Promise<string> {
+  const trimmed = reference.trim();
+
+  // Plain IDs are the common case, so answer them without syncing the cache
+  const known = findById(trimmed, getAccountCacheEntry(workspace)?.accounts || []);
+  if (known) {
+    return known.id;
+  }
+  if (looksLikeVitallyId(trimmed)) {
+    return trimmed;
   }
 
-  if (endpoint.startsWith('/resources/accounts/') && endpoint.includes('/npsResponses')) {
-    return {
-      results: [
-        { id: "nps-1", externalId: "nps-resp-1", userId: "101", score: 9, feedback: "Great product!", respondedAt: "2024-01-10T14:00:00Z" },
-        { id: "nps-2", externalId: "nps-resp-2", userId: "102", score: 7, feedback: "Good but could improve docs", respondedAt: "2024-01-12T09:30:00Z" }
-      ],
-      next: null
-    } as unknown as T;
+  // Vitally looks accounts up by ID or external ID directly, whatever their
+  // status, which is much cheaper than syncing every account to find out
+  if (!/\s/.test(trimmed)) {
+    try {
+      const account = await callVitallyAPI<VitallyAccount>(workspace, `/resources/accounts/${encodeURIComponent(trimmed)}`);
+      return account.id;
+    } catch (error) {
+      if (findApiError(error)?.kind !== 'not_found') {
+        throw error;
+      }
+    }
   }
 
-  if (endpoint.startsWith('/resources/accounts/') && endpoint.includes('/projects')) {
-    return {
-      results: [
-        { id: "p1", name: "Enterprise Onboarding", accountId: "1", durationInDays: 30, targetStartDate: "2024-01-01", actualStartDate: "2024-01-05", actualCompletionDate: null, projectStatusId: "in-progress", traits: {} },
-      ],
-      next: null
-    } as unknown as T;
+  const accounts = await getCachedAccounts(workspace, control);
+  const resolved = (matches: ReferencedAccount[], exact: boolean) => {
+    if (matches.length > 1) {
+      throw new AccountReferenceError(workspace, trimmed, matches);
+    }
+    if (matches.length === 1 && !exact && exactOnly) {
+      throw new AccountReferenceError(workspace, trimmed, matches, 'inexact_account');
+    }
+    return matches[0]?.id;
+  };
+
+  const byName = resolved(exactNameMatches(trimmed, accounts), true);
+  if (byName) {
+    return byName;
   }
 
-  if (endpoint.startsWith('/resources/accounts/') && method === 'PUT') {
-    const accountId = endpoint.split('/')[3];
-    const account = mockAccounts.find(a => a.id === accountId);
-    return { ...account, ...body, traits: { ...(account as any)?.traits, ...body?.traits } } as unknown as T;
+  const domain = referencedDomain(trimmed);
+  if (domain) {
+    const users = await callVitallyAPI<VitallyPaginatedResponse<VitallyUser>>(
+      workspace,
+      `/resources/users/search?emailSubdomain=${encodeURIComponent(domain)}&limit=100`
+    );
+    const accountIds = [...new Set(users.results.flatMap(userAccountIds))];
+    const byDomain = resolved(accountIds.map(id => accounts.find(account => account.id === id) || { id, name: id }), false);
+    if (byDomain) {
+      return byDomain;
+    }
   }
 
-  return {} as T;
+  const byFuzzyName = resolved(fuzzyNameMatches(trimmed, accounts), false);
+  if (byFuzzyName) {
+    return byFuzzyName;
+  }
+  throw new AccountReferenceError(workspace, trimmed, []);
 }
 
-// In-memory cache for accounts and users
-let accountsCache: VitallyAccount[] = [];
-let usersCache: VitallyUser[] = [];
+// Which accounts are listed as resources, and how many per page
+const RESOURCE_LISTING_OPTIONS = resourceListingOptionsFromEnv();
 
 /**
- * Create an MCP server with capabilities for resources and tools
+ * Get the accounts of a workspace to list as resources, from the cache for
+ * the listing's status
  */
-const server = new Server(
-  {
-    name: "vitally-api",
-    version: "0.1.0",
-    transport: {
-      type: "http-stream",
-      options: {
-        port: 1337,
-        cors: {
-          allowOrigin: "*"
-        }
-      }
-    },
-  },
-  {
-    capabilities: {
-      resources: {},
-      tools: {},
-    },
-
-  }
-);
+async function getListedAccounts(workspace: Workspace, control: FetchControl): Promise<VitallyAccount[]> {
+  const accounts = await getCachedAccounts(workspace, control, RESOURCE_LISTING_OPTIONS.status || LOOKUP_STATUS);
+  return accounts.filter(account => isListedAccount(account, RESOURCE_LISTING_OPTIONS));
+}
 
 /**
- * Handler for listing available accounts as resources
+ * Handler for listing accounts as resources, a page at a time
  */
-server.setRequestHandler(ListResourcesRequestSchema, async () => {
-  try {
-    // Fetch accounts from Vitally API if not cached
-    if (accountsCache.length === 0) {
-      accountsCache = await fetchAllPages<VitallyAccount>('/resources/accounts');
+async function listResources(request: ListResourcesRequest, control: FetchControl = {}) {
+  let offset = 0;
+  if (request.params?.cursor) {
+    try {
+      offset = decodeCursor<{ offset: number }>(request.params.cursor).offset;
+    } catch (error) {
+      throw new McpError(ErrorCode.InvalidParams, error instanceof Error ? error.message : String(error));
+    }
+    if (!Number.isInteger(offset) || offset < 0) {
+      throw new McpError(ErrorCode.InvalidParams, 'Invalid cursor: pass the nextCursor value from a previous call unchanged');
     }
-
-    return {
-      resources: accountsCache.map(account => ({
-        uri: `vitally://account/${account.id}`,
-        mimeType: "application/json",
-        name: account.name,
-        description: `Vitally customer account: ${account.name}`
-      }))
-    };
-  } catch (error) {
-    console.error('Error listing resources:', error);
-    return { resources: [] };
   }
-});
 
-/**
- * Handler for reading the details of a specific account
- */
-server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
-  const url = new URL(request.params.uri);
-  const path = url.pathname.replace(/^\//, '');
-  const [type, id] = path.split('/');
+  const workspaces = listWorkspaces();
+  const resources = [];
 
-  if (type === 'account') {
+  for (const workspace of workspaces) {
+    let accounts: VitallyAccount[];
     try {
-      const account = await callVitallyAPI<VitallyAccount>(`/resources/accounts/${id}`);
-      return {
-        contents: [{
-          uri: request.params.uri,
-          mimeType: "application/json",
-          text: JSON.stringify(account, null, 2)
-        }]
-      };
+      accounts = await getListedAccounts(workspace, control);
     } catch (error) {
-      throw new Error(`Failed to retrieve account ${id}: ${error}`);
+      throw toMcpError(error, `Failed to list accounts for workspace '${workspace.name}'`);
     }
+    const label = workspaces.length > 1 ? ` (${workspace.name})` : '';
+
+    resources.push(...accounts.map(account => ({
+      uri: accountUri(workspace, account.id),
+      mimeType: "application/json",
+      name: `${account.name}${label}`,
+      description: `Vitally customer account: ${account.name}${label}`
+    })));
   }
 
-  throw new Error(`Resource type '${type}' not supported`);
-});
+  const end = offset + RESOURCE_LISTING_OPTIONS.pageSize;
+  return {
+    resources: resources.slice(offset, end),
+    nextCursor: end < resources.length ? encodeCursor({ offset: end }) : undefined
+  };
+}
 
 /**
- * Handler that lists available tools
+ * A kind of resource clients can read, addressed by a URI template
+ * relative to `vitally://{workspace}/`
  */
-server.setRequestHandler(ListToolsRequestSchema, async () => {
-  const allTools = [
-    {
-      name: "search_tools",
-      description: "Vitally tool to search for available tools by keyword",
-      inputSchema: {
-        type: "object",
-        properties: {
-          keyword: {
-            type: "string",
-            description: "Keyword to search for in tool names and descriptions"
-          }
-        },
-        required: ["keyword"]
-      }
-    },
-    {
-      name: "search_users",
-      description: "Vitally tool to search for users by email or external ID",
-      inputSchema: {
-        type: "object",
-        properties: {
-          email: {
-            type: "string",
-            description: "User email address"
-          },
-          externalId: {
-            type: "string",
-            description: "External user ID"
-          },
-          emailSubdomain: {
-            type: "string",
-            description: "Email subdomain to search for"
-          }
-        }
-      }
-    },
-    {
-      name: "search_accounts",
-      description: "Vitally tool to search for accounts by multiple criteria",
-      inputSchema: {
-        type: "object",
-        properties: {
-          name: {
-            type: "string",
-            description: "Full or partial account name to search for"
-          },
-          externalId: {
-            type: "string",
-            description: "External account ID to search for"
-          },
-          limit: {
-            type: "number",
-            description: "Maximum number of results (default: 10)"
-          }
-        }
-      }
-    },
-    {
-      name: "get_account_health",
-      description: "Vitally tool to get health scores for an account",
-      inputSchema: {
-        type: "object",
-        properties: {
-          accountId: {
-            type: "string",
-            description: "Vitally account ID"
-          }
-        },
-        required: ["accountId"]
-      }
-    },
-    {
-      name: "find_account_by_name",
-      description: "Vitally tool to find an account by name (partial match supported)",
-      inputSchema: {
-        type: "object",
-        properties: {
-          name: {
-            type: "string",
-            description: "Full or partial account name to search for"
-          }
-        },
-        required: ["name"]
-      }
-    },
-    {
-      name: "get_account_conversations",
-      description: "Vitally tool to get recent conversations for an account",
-      inputSchema: {
-        type: "object",
-        properties: {
-          accountId: {
-            type: "string",
-            description: "Vitally account ID"
-          },
-          limit: {
-            type: "number",
-            description: "Maximum number of conversations to return (default: 10)"
-          }
-        },
-        required: ["accountId"]
-      }
-    },
-    {
-      name: "get_account_tasks",
-      description: "Vitally tool to get tasks for an account",
-      inputSchema: {
-        type: "object",
-        properties: {
-          accountId: {
-            type: "string",
-            description: "Vitally account ID"
-          },
-          status: {
-            type: "string",
-            description: "Filter tasks by status (e.g., 'open', 'completed')"
-          },
-          limit: {
-            type: "number",
-            description: "Maximum number of tasks to return (default: 10)"
-          }
-        },
-        required: ["accountId"]
-      }
-    },
-    {
-      name: "get_account_notes",
-      description: "Vitally tool to retrieve notes for an account",
-      inputSchema: {
-        type: "object",
-        properties: {
-          accountId: {
-            type: "string",
-            description: "Vitally account ID"
-          },
-          limit: {
-            type: "number",
-            description: "Maximum number of notes to return (default: 10)"
-          }
-        },
-        required: ["accountId"]
-      }
-    },
-    {
-      name: "get_note_by_id",
-      description: "Vitally tool to retrieve full content of a specific note by ID",
-      inputSchema: {
-        type: "object",
-        properties: {
-          noteId: {
-            type: "string",
-            description: "Vitally note ID"
-          }
-        },
-        required: ["noteId"]
-      }
-    },
-    {
-      name: "create_account_note",
-      description: "Vitally tool to create a new note for an account",
-      inputSchema: {
-        type: "object",
-        properties: {
-          accountId: {
-            type: "string",
-            description: "Vitally account ID"
-          },
-          content: {
-            type: "string",
-            description: "Content of the note"
-          }
-        },
-        required: ["accountId", "content"]
-      }
-    },
-    {
-      name: "refresh_accounts",
-      description: "Vitally tool to refresh the list of accounts. By default fetches ALL accounts across all pages (cursor-based pagination). Set fetchAll to false to fetch only the first page.",
-      inputSchema: {
-        type: "object",
-        properties: {
-          status: {
-            type: "string",
-            description: "Filter by account status: 'active' (default), 'churned', or 'activeOrChurned'",
-            enum: ["active", "churned", "activeOrChurned"]
-          },
-          fetchAll: {
-            type: "boolean",
-            description: "If true (default), fetches all accounts across all pages. If false, fetches only the first page (up to 100)."
-          }
-        }
-      }
-    },
-    {
-      name: "get_account_details",
-      description: "Get full account details including traits, success metrics, health score, MRR, NPS score, timestamps, CSM assignment, segments, and all custom properties",
-      inputSchema: {
-        type: "object",
-        properties: {
-          accountId: {
-            type: "string",
-            description: "Vitally account ID or external ID"
-          }
-        },
-        required: ["accountId"]
-      }
-    },
-    {
-      name: "list_custom_traits",
-      description: "List all custom trait definitions for a given object type. Returns trait labels, data types, and API keys needed for reading/writing traits.",
-      inputSchema: {
-        type: "object",
-        properties: {
-          model: {
-            type: "string",
-            description: "Object type to list traits for",
-            enum: ["accounts", "users", "notes", "tasks", "projects", "organizations"]
-          }
-        },
-        required: ["model"]
-      }
-    },
-    {
-      name: "update_account_traits",
-      description: "Update custom traits on a Vitally account. Traits are merged with existing values. Set a trait to null to remove it. Use list_custom_traits to discover available trait keys.",
-      inputSchema: {
-        type: "object",
-        properties: {
-          accountId: {
-            type: "string",
-            description: "Vitally account ID"
-          },
-          traits: {
-            type: "object",
-            description: "Key-value pairs of traits to set (e.g., { 'vitally.custom.myTrait': 'value' }). Set to null to remove."
-          }
-        },
-        required: ["accountId", "traits"]
-      }
-    },
-    {
-      name: "get_account_nps",
-      description: "Get NPS survey responses for a specific account, including scores and feedback from users",
-      inputSchema: {
-        type: "object",
-        properties: {
-          accountId: {
-            type: "string",
-            description: "Vitally account ID"
-          },
-          limit: {
-            type: "number",
-            description: "Maximum number of NPS responses to return (default: 10)"
-          }
-        },
-        required: ["accountId"]
-      }
-    },
-    {
-      name: "get_account_projects",
-      description: "Get projects (e.g., onboarding, implementation) for a specific account, including status, dates, and traits",
-      inputSchema: {
-        type: "object",
-        properties: {
-          accountId: {
-            type: "string",
-            description: "Vitally account ID"
-          },
-          limit: {
-            type: "number",
-            description: "Maximum number of projects to return (default: 10)"
-          }
-        },
-        required: ["accountId"]
-      }
-    }
-  ];
-
-  return { tools: allTools };
-});
+interface ResourceType {
+  type: string;
+  subresource?: string;
+  template: string;
+  name: string;
+  description: string;
+  read: (workspace: Workspace, id: string) => Promise<unknown>;
+}
 
 /**
- * Predefined list of all available tools for use in search_tools
+ * Read the newest page of an account's records of one kind
  */
-const AVAILABLE_TOOLS = [
-  {
-    name: "search_tools",
-    description: "Vitally tool to search for available tools by keyword",
-    requiredParams: ["keyword"]
-  },
-  {
-    name: "search_users",
-    description: "Vitally tool to search for users by email or external ID",
-    requiredParams: []
-  },
-  {
-    name: "search_accounts",
-    description: "Vitally tool to search for accounts by multiple criteria",
-    requiredParams: []
-  },
+async function readAccountRecords(workspace: Workspace, accountId: string, resource: string) {
+  const records = await fetchAccountRecords<Record<string, any>>(
+    workspace, accountId, resource, {}, 100, { maxRecords: 100 }
+  );
+  return { count: records.results.length, results: records.results, nextCursor: records.nextCursor };
+}
+
+const RESOURCE_TYPES: ResourceType[] = [
   {
-    name: "get_account_health",
-    description: "Vitally tool to get health scores for an account",
-    requiredParams: ["accountId"]
+    type: "account",
+    template: "account/{id}",
+    name: "Account",
+    description: "Full details of a Vitally account, including traits and success metrics",
+    read: (workspace, id) => callVitallyAPI(workspace, `/resources/accounts/${encodeURIComponent(id)}`)
   },
   {
-    name: "find_account_by_name",
-    description: "Vitally tool to find an account by name (partial match supported)",
-    requiredParams: ["name"]
+    type: "account",
+    subresource: "health",
+    template: "account/{id}/health",
+    name: "Account health scores",
+    description: "Overall health score and its components for a Vitally account",
+    read: (workspace, id) => callVitallyAPI(workspace, `/resources/accounts/${encodeURIComponent(id)}/healthScores`)
   },
   {
-    name: "get_account_conversations",
-    description: "Vitally tool to get recent conversations for an account",
-    requiredParams: ["accountId"]
+    type: "account",
+    subresource: "notes",
+    template: "account/{id}/notes",
+    name: "Account notes",
+    description: "The 100 most recent notes on a Vitally account",
+    read: (workspace, id) => readAccountRecords(workspace, id, 'notes')
   },
   {
-    name: "get_account_tasks",
-    description: "Vitally tool to get tasks for an account",
-    requiredParams: ["accountId"]
+    type: "account",
+    subresource: "tasks",
+    template: "account/{id}/tasks",
+    name: "Account tasks",
+    description: "The 100 most recent tasks on a Vitally account",
+    read: (workspace, id) => readAccountRecords(workspace, id, 'tasks')
   },
   {
-    name: "get_account_notes",
-    description: "Vitally tool to retrieve notes for an account",
-    requiredParams: ["accountId"]
+    type: "account",
+    subresource: "conversations",
+    template: "account/{id}/conversations",
+    name: "Account conversations",
+    description: "The 100 most recent conversations with a Vitally account",
+    read: (workspace, id) => readAccountRecords(workspace, id, 'conversations')
   },
   {
-    name: "get_note_by_id",
-    description: "Vitally tool to retrieve full content of a specific note by ID",
-    requiredParams: ["noteId"]
+    type: "account",
+    subresource: "nps",
+    template: "account/{id}/nps",
+    name: "Account NPS responses",
+    description: "The 100 most recent NPS survey responses from a Vitally account's users",
+    read: (workspace, id) => readAccountRecords(workspace, id, 'npsResponses')
   },
   {
-    name: "create_account_note",
-    description: "Vitally tool to create a new note for an account",
-    requiredParams: ["accountId", "content"]
+    type: "account",
+    subresource: "projects",
+    template: "account/{id}/projects",
+    name: "Account projects",
+    description: "Projects (e.g. onboarding, implementation) for a Vitally account",
+    read: (workspace, id) => readAccountRecords(workspace, id, 'projects')
   },
   {
-    name: "refresh_accounts",
-    description: "Vitally tool to refresh the list of accounts",
-    requiredParams: []
+    type: "account",
+    subresource: "users",
+    template: "account/{id}/users",
+    name: "Account users",
+    description: "Users belonging to a Vitally account",
+    read: (workspace, id) => readAccountRecords(workspace, id, 'users')
   },
   {
-    name: "get_account_details",
-    description: "Get full account details including traits, success metrics, health score, MRR, NPS score, timestamps, CSM assignment, and segments",
-    requiredParams: ["accountId"]
+    type: "note",
+    template: "note/{id}",
+    name: "Note",
+    description: "Full content of a Vitally note",
+    read: (workspace, id) => callVitallyAPI(workspace, `/resources/notes/${encodeURIComponent(id)}`)
   },
   {
-    name: "list_custom_traits",
-    description: "List all custom trait definitions for a given object type (accounts, users, notes, tasks, projects, organizations)",
-    requiredParams: ["model"]
+    type: "user",
+    template: "user/{id}",
+    name: "User",
+    description: "A Vitally user and their traits",
+    read: (workspace, id) => callVitallyAPI(workspace, `/resources/users/${encodeURIComponent(id)}`)
   },
   {
-    name: "update_account_traits",
-    description: "Update custom traits on a Vitally account. Traits are merged with existing values.",
-    requiredParams: ["accountId", "traits"]
-  },
-  {
-    name: "get_account_nps",
-    description: "Get NPS survey responses for a specific account, including scores and feedback",
-    requiredParams: ["accountId"]
-  },
-  {
-    name: "get_account_projects",
-    description: "Get projects (e.g., onboarding, implementation) for a specific account",
-    requiredParams: ["accountId"]
+    type: "traits",
+    template: "traits/{model}",
+    name: "Custom trait definitions",
+    description: "Custom trait definitions for a model: accounts, organizations, users or projects",
+    read: (workspace, model) => callVitallyAPI(workspace, `/resources/customFields?model=${encodeURIComponent(model)}`)
   }
 ];
 
 /**
- * Handler for tool calls
+ * Handler for listing resource templates. With several workspaces the
+ * templates include the workspace; otherwise the default one is implied.
  */
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  switch (request.params.name) {
-    case "search_tools": {
-      const keyword = (request.params.arguments?.keyword as string || "").toLowerCase();
-      if (!keyword) {
-        throw new Error("Keyword is required");
-      }
+async function listResourceTemplates() {
+  const prefix = listWorkspaces().length > 1 ? "vitally://{workspace}/" : "vitally://";
+  return {
+    resourceTemplates: RESOURCE_TYPES.map(resourceType => ({
+      uriTemplate: `${prefix}${resourceType.template}`,
+      name: resourceType.name,
+      description: resourceType.description,
+      mimeType: "application/json"
+    }))
+  };
+}
+
+/**
+ * Handler for reading a resource: an account, one of its sub-resources, a
+ * note, a user or a model's trait definitions
+ */
+async function readResource(request: ReadResourceRequest) {
+  const { workspace, type, id, subresource } = parseResourceUri(request.params.uri);
+
+  const resourceType = RESOURCE_TYPES.find(candidate =>
+    candidate.type === type && candidate.subresource === subresource
+  );
+  if (!resourceType) {
+    const templates = RESOURCE_TYPES.map(candidate => `vitally://${candidate.template}`).join(', ');
+    throw new McpError(ErrorCode.InvalidParams, `Resource '${request.params.uri}' not supported. Supported resources: ${templates}`);
+  }
+  if (!id) {
+    throw new McpError(ErrorCode.InvalidParams, `Resource '${request.params.uri}' is missing an id: expected vitally://${resourceType.template}`);
+  }
+
+  try {
+    const data = await resourceType.read(workspace, id);
+    return {
+      contents: [{
+        uri: request.params.uri,
+        mimeType: "application/json",
+        text: JSON.stringify(data, null, 2)
+      }]
+    };
+  } catch (error) {
+    throw toMcpError(error, `Failed to retrieve ${request.params.uri}`);
+  }
+}
+
+// How often subscribed resources are polled for changes
+const SUBSCRIPTION_OPTIONS = subscriptionOptionsFromEnv();
+
+/**
+ * Snapshot of a subscribed resource, compared between polls. An account's
+ * snapshot also covers its health scores and latest note, so a score drop
+ * or a new note counts as a change to the account. Activity timestamps
+ * (last seen, last message, updatedAt) are left out: they move whenever the
+ * account's users are active, which isn't a change worth notifying about.
+ */
+async function snapshotResource(uri: string): Promise<unknown> {
+  const { workspace, type, id, subresource } = parseResourceUri(uri);
+
+  if (type === 'account' && !subresource) {
+    const accountId = encodeURIComponent(id);
+    const [account, health, notes] = await Promise.all([
+      callVitallyAPI<VitallyAccount>(workspace, `/resources/accounts/${accountId}`),
+      // Not every account has health scores yet. Any other failure fails the
+      // poll, which keeps the previous snapshot, rather than looking like a change.
+      callVitallyAPI(workspace, `/resources/accounts/${accountId}/healthScores`).catch(error => {
+        if (findApiError(error)?.kind === 'not_found') {
+          return null;
+        }
+        throw error;
+      }),
+      callVitallyAPI<{ results: VitallyNote[] }>(workspace, `/resources/accounts/${accountId}/notes?limit=1`)
+    ]);
+    return {
+      account: {
+        name: account.name,
+        churnedAt: account.churnedAt ?? null,
+        csmId: account.csmId ?? null,
+        segments: account.segments ?? [],
+        traits: account.traits ?? {}
+      },
+      health,
+      latestNote: notes.results[0] ?? null
+    };
+  }
+
+  const { contents } = await readResource({ method: "resources/read", params: { uri } });
+  return contents[0].text;
+}
+
+/**
+ * Field-by-field before/after diff of a trait update against an account's
+ * current traits. A null value removes the trait.
+ */
+function diffTraits(current: Record<string, any> = {}, updates: Record<string, any>) {
+  return Object.entries(updates).map(([key, after]) => {
+    const before = current[key];
+    let change: 'added' | 'changed' | 'removed' | 'unchanged';
+    if (after === null) {
+      change = before === undefined ? 'unchanged' : 'removed';
+    } else if (before === undefined) {
+      change = 'added';
+    } else {
+      change = JSON.stringify(before) === JSON.stringify(after) ? 'unchanged' : 'changed';
+    }
+    return { key, before: before ?? null, after, change };
+  });
+}
+
+/**
+ * Apply a trait update, snapshotting the prior value of every touched trait
+ * first so the update can be undone by the returned operation id
+ */
+async function applyTraitUpdate(
+  workspace: Workspace,
+  tool: string,
+  accountId: string,
+  current: VitallyAccount,
+  traits: Record<string, any>
+) {
+  // Traits that didn't exist before are recorded as null, which removes them again
+  const previous = Object.fromEntries(
+    Object.keys(traits).map(key => [key, current.traits?.[key] ?? null])
+  );
+  const snapshot = saveTraitSnapshot({ workspace: workspace.name, accountId, previous, applied: traits });
+
+  const updated = await callVitallyAPI<VitallyAccount>(
+    workspace,
+    `/resources/accounts/${accountId}`,
+    'PUT',
+    { traits },
+    { tool, arguments: { accountId, traits }, accountId, previous: { traits: previous } }
+  );
+
+  return { updated, operationId: snapshot.operationId };
+}
+
+/**
+ * Gate a write tool behind dry-run and (when enabled) two-step confirmation.
+ *
+ * Returns the result to send back instead of writing, or undefined when the
+ * write should go ahead.
+ */
+function previewWrite(
+  tool: string,
+  workspace: Workspace,
+  args: Record<string, unknown>,
+  preview: Record<string, unknown>
+): ToolResult | undefined {
+  const dryRun = args.dryRun === true;
+  const confirmationToken = args.confirmationToken as string | undefined;
+  const payload = { ...args, workspace: workspace.name, dryRun: undefined, confirmationToken: undefined };
+
+  if (dryRun) {
+    return {
+      content: [{
+        type: "text",
+        text: JSON.stringify({ dryRun: true, ...preview }, null, 2)
+      }]
+    };
+  }
+
+  if (!confirmationsRequired()) {
+    return undefined;
+  }
+
+  if (confirmationToken) {
+    consumeConfirmationToken(confirmationToken, tool, payload);
+    return undefined;
+  }
+
+  const { token, expiresAt } = issueConfirmationToken(tool, payload);
+  return {
+    content: [{
+      type: "text",
+      text: JSON.stringify({
+        confirmationRequired: true,
+        message: `Nothing has been written yet. To apply this change, call ${tool} again with the same arguments and confirmationToken "${token}" before ${expiresAt}.`,
+        confirmationToken: token,
+        expiresAt,
+        ...preview
+      }, null, 2)
+    }]
+  };
+}
+
+/**
+ * The accountId argument of per-account tools. Tools that use it get the
+ * account reference resolved to a Vitally ID before their handler runs.
+ */
+const ACCOUNT_REFERENCE_PROPERTY: JsonSchema = {
+  type: "string",
+  description: "Account to use: its Vitally ID, external ID, name (exact or partial) or the email domain of its users. Ambiguous references fail with the candidate accounts."
+};
+
+/**
+ * Arguments shared by the per-account list tools for paging through results
+ */
+interface PaginationArgs {
+  cursor?: string;
+  all?: boolean;
+  maxRecords: number;
+}
+
+const PAGINATION_PROPERTIES: Record<string, JsonSchema> = {
+  cursor: {
+    type: "string",
+    description: "nextCursor from a previous call, to fetch the next page"
+  },
+  all: {
+    type: "boolean",
+    description: "If true, fetches every page up to maxRecords instead of a single page of limit records"
+  },
+  maxRecords: {
+    type: "integer",
+    description: "Ceiling on the number of records fetched when all is true (default: 1000)",
+    minimum: 1,
+    maximum: 5000,
+    default: 1000
+  }
+};
+
+/**
+ * `since` / `until` arguments of the per-account list tools
+ */
+interface DateWindowArgs {
+  since?: string;
+  until?: string;
+}
+
+function dateWindowProperties(field: string): Record<string, JsonSchema> {
+  return {
+    since: {
+      type: "string",
+      description: `Only include records whose ${field} is at or after this: ${DATE_EXPRESSION_HELP}. Every page in the window is fetched.`
+    },
+    until: {
+      type: "string",
+      description: `Only include records whose ${field} is before this (a plain date includes that day): ${DATE_EXPRESSION_HELP}`
+    }
+  };
+}
+
+interface AccountRecords<T> {
+  results: T[];
+  // Cursor for the next page, when fetching a single page
+  nextCursor?: string;
+  // Whether fetching every page stopped at maxRecords, so older records may be missing
+  truncated?: boolean;
+  // The date window applied, if any
+  window?: { field: string; since?: string; until?: string };
+}
+
+/**
+ * Fetch an account's records of one kind (e.g. 'tasks'): a single page of
+ * `limit` records starting at `cursor`, or every page up to `maxRecords`
+ * when `all` is set. With a date window, pages are fetched newest first
+ * until they're older than `since`, and only records whose `field` is
+ * inside the window are kept.
+ */
+async function fetchAccountRecords<T extends Record<string, any>>(
+  workspace: Workspace,
+  accountId: string,
+  resource: string,
+  params: Record<string, string>,
+  limit: number,
+  { cursor, all, maxRecords }: PaginationArgs,
+  window?: DateWindowArgs & { field: string },
+  control?: FetchControl
+): Promise<AccountRecords<T>> {
+  const endpoint = `/resources/accounts/${encodeURIComponent(accountId)}/${resource}`;
+
+  if (window && (window.since || window.until)) {
+    if (cursor) {
+      throw new Error("cursor can't be combined with since/until, which already fetch every page in the window");
+    }
+
+    const range = resolveDateRange(window.since, window.until);
+    const isOlder = (record: T) => !!range.since && Date.parse(record[window.field]) < range.since.getTime();
+    const sortBy = window.field === 'updatedAt' ? 'updatedAt' : 'createdAt';
+    const fetched = await fetchAllPages<T>(
+      workspace,
+      endpoint,
+      { ...params, sortBy },
+      Math.ceil(maxRecords / 100),
+      page => page.some(isOlder),
+      control
+    );
+
+    return {
+      results: fetched.filter(record => isInRange(record[window.field], range)).slice(0, maxRecords),
+      truncated: fetched.length >= maxRecords && !fetched.some(isOlder),
+      window: { field: window.field, since: range.since?.toISOString(), until: range.until?.toISOString() }
+    };
+  }
+
+  if (all) {
+    const results = await fetchAllPages<T>(workspace, endpoint, params, Math.ceil(maxRecords / 100), undefined, control);
+    return {
+      results: results.slice(0, maxRecords),
+      truncated: results.length >= maxRecords
+    };
+  }
+
+  const queryParams = new URLSearchParams(params);
+  queryParams.set('limit', limit.toString());
+  if (cursor) {
+    queryParams.set('from', cursor);
+  }
+
+  const page = await callVitallyAPI<VitallyPaginatedResponse<T>>(workspace, `${endpoint}?${queryParams}`);
+  return {
+    results: page.results || [],
+    nextCursor: page.next || undefined
+  };
+}
+
+/**
+ * Render a list result as a tool result. CSV output has no room for the
+ * summary, so a cursor to continue from is reported separately. The cursor
+ * is also in the result's `_meta`, so the CLI can tell the output is
+ * incomplete whatever the format.
+ */
+function listToolResult(toolName: string, format: OutputFormat, list: ListResult, nextCursor?: string): ToolResult {
+  const content: ToolResult["content"] = [{ type: "text", text: renderList(format, list) }];
+  if (!nextCursor) {
+    return { content };
+  }
+  if (format === 'csv') {
+    content.push({
+      type: "text",
+      text: `More results are available. Call ${toolName} again with cursor "${nextCursor}" to continue.`
+    });
+  }
+  return { content, _meta: { nextCursor } };
+}
+
+/**
+ * Context passed to every tool handler
+ */
+interface ToolContext {
+  workspace: Workspace;
+  control: FetchControl;
+}
+
+type VitallyTool = ToolDefinition<any, ToolContext>;
+
+/**
+ * Declare a tool with typed arguments. Handlers receive arguments that have
+ * already been validated and coerced against the tool's input schema, with
+ * schema defaults filled in.
+ */
+function tool<Args>(definition: ToolDefinition<Args, ToolContext>): VitallyTool {
+  return definition;
+}
 
-      // Filter tools by keyword from our predefined list
+/**
+ * Every tool this server provides. The tool listing, search_tools and the
+ * call dispatcher are all derived from this list.
+ */
+const TOOLS: VitallyTool[] = [
+  tool<{ keyword: string }>({
+    name: "search_tools",
+    description: "Vitally tool to search for available tools by keyword",
+    inputSchema: {
+      type: "object",
+      properties: {
+        keyword: {
+          type: "string",
+          description: "Keyword to search for in tool names and descriptions"
+        }
+      },
+      required: ["keyword"]
+    },
+    handler: async (args, _context) => {
+      const keyword = args.keyword.toLowerCase();
+
+      // Filter the enabled tools by keyword
       const matchingTools = AVAILABLE_TOOLS.filter(tool =>
         tool.name.toLowerCase().includes(keyword) ||
         tool.description.toLowerCase().includes(keyword)
@@ -888,12 +1257,28 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         }]
       };
     }
-
-    case "search_users": {
-      const email = request.params.arguments?.email as string | undefined;
-      const externalId = request.params.arguments?.externalId as string | undefined;
-      const emailSubdomain = request.params.arguments?.emailSubdomain as string | undefined;
-
+  }),
+  tool<{ email?: string; externalId?: string; emailSubdomain?: string }>({
+    name: "search_users",
+    description: "Vitally tool to search for users by email or external ID",
+    inputSchema: {
+      type: "object",
+      properties: {
+        email: {
+          type: "string",
+          description: "User email address"
+        },
+        externalId: {
+          type: "string",
+          description: "External user ID"
+        },
+        emailSubdomain: {
+          type: "string",
+          description: "Email subdomain to search for"
+        }
+      }
+    },
+    handler: async ({ email, externalId, emailSubdomain }, { workspace }) => {
       if (!email && !externalId && !emailSubdomain) {
         throw new Error("At least one search parameter (email, externalId, or emailSubdomain) is required");
       }
@@ -905,7 +1290,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       if (emailSubdomain) queryParams.append('emailSubdomain', emailSubdomain);
 
       try {
-        const users = await callVitallyAPI<VitallyPaginatedResponse<VitallyUser>>(`/resources/users/search?${queryParams}`);
+        const users = await callVitallyAPI<VitallyPaginatedResponse<VitallyUser>>(workspace, `/resources/users/search?${queryParams}`);
         return {
           content: [{
             type: "text",
@@ -913,27 +1298,44 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           }]
         };
       } catch (error) {
-        throw new Error(`User search failed: ${error}`);
+        throw failure("User search failed", error);
       }
     }
-
-    case "search_accounts": {
-      const name = request.params.arguments?.name as string | undefined;
-      const externalId = request.params.arguments?.externalId as string | undefined;
-      const limit = request.params.arguments?.limit as number || 10;
-
+  }),
+  tool<{ name?: string; externalId?: string; limit: number; format: OutputFormat }>({
+    name: "search_accounts",
+    description: "Vitally tool to search for accounts by multiple criteria",
+    inputSchema: {
+      type: "object",
+      properties: {
+        name: {
+          type: "string",
+          description: "Full or partial account name to search for"
+        },
+        externalId: {
+          type: "string",
+          description: "External account ID to search for"
+        },
+        limit: {
+          type: "integer",
+          description: "Maximum number of results (default: 10)",
+          minimum: 1,
+          default: 10
+        },
+        format: FORMAT_PROPERTY
+      }
+    },
+    handler: async ({ name, externalId, limit, format }, { workspace, control }) => {
       if (!name && !externalId) {
         throw new Error("At least one search parameter (name or externalId) is required");
       }
 
       try {
         // Ensure accounts are loaded (all pages)
-        if (accountsCache.length === 0) {
-          accountsCache = await fetchAllPages<VitallyAccount>('/resources/accounts');
-        }
+        const accounts = await getCachedAccounts(workspace, control);
 
         // Filter accounts by criteria
-        let filteredAccounts = [...accountsCache];
+        let filteredAccounts = [...accounts];
 
         if (name) {
           const nameToMatch = name.toLowerCase();
@@ -951,22 +1353,16 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         // Limit results
         const limitedAccounts = filteredAccounts.slice(0, limit);
 
-        if (limitedAccounts.length === 0) {
-          return {
-            content: [{
-              type: "text",
-              text: `No accounts found matching the criteria`
-            }]
-          };
-        }
-
         return {
           content: [{
             type: "text",
-            text: JSON.stringify({
-              count: limitedAccounts.length,
-              totalMatches: filteredAccounts.length,
-              accounts: limitedAccounts.map(account => ({
+            text: renderList(format, {
+              key: "accounts",
+              summary: {
+                count: limitedAccounts.length,
+                totalMatches: filteredAccounts.length
+              },
+              rows: limitedAccounts.map(account => ({
                 id: account.id,
                 name: account.name,
                 externalId: account.externalId,
@@ -975,24 +1371,31 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
                 npsScore: account.npsScore,
                 usersCount: account.usersCount,
                 lastSeenTimestamp: account.lastSeenTimestamp,
-                uri: `vitally://account/${account.id}`
-              }))
-            }, null, 2)
+                uri: accountUri(workspace, account.id)
+              })),
+              emptyMessage: "No accounts found matching the criteria",
+              columns: ["id", "name", "externalId", "healthScore", "mrr", "npsScore", "usersCount", "lastSeenTimestamp", "uri"]
+            })
           }]
         };
       } catch (error) {
-        throw new Error(`Account search failed: ${error}`);
+        throw failure("Account search failed", error);
       }
     }
-
-    case "get_account_health": {
-      const accountId = request.params.arguments?.accountId as string;
-      if (!accountId) {
-        throw new Error("Account ID is required");
-      }
-
+  }),
+  tool<{ accountId: string }>({
+    name: "get_account_health",
+    description: "Vitally tool to get health scores for an account",
+    inputSchema: {
+      type: "object",
+      properties: {
+        accountId: ACCOUNT_REFERENCE_PROPERTY
+      },
+      required: ["accountId"]
+    },
+    handler: async ({ accountId }, { workspace }) => {
       try {
-        const healthScores = await callVitallyAPI<any>(`/resources/accounts/${accountId}/healthScores`);
+        const healthScores = await callVitallyAPI<any>(workspace, `/resources/accounts/${accountId}/healthScores`);
         return {
           content: [{
             type: "text",
@@ -1000,25 +1403,31 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           }]
         };
       } catch (error) {
-        throw new Error(`Failed to get health scores: ${error}`);
+        throw failure("Failed to get health scores", error);
       }
     }
-
-    case "find_account_by_name": {
-      const name = request.params.arguments?.name as string;
-      if (!name) {
-        throw new Error("Account name is required");
-      }
-
+  }),
+  tool<{ name: string }>({
+    name: "find_account_by_name",
+    description: "Vitally tool to find an account by name (partial match supported)",
+    inputSchema: {
+      type: "object",
+      properties: {
+        name: {
+          type: "string",
+          description: "Full or partial account name to search for"
+        }
+      },
+      required: ["name"]
+    },
+    handler: async ({ name }, { workspace, control }) => {
       try {
         // Ensure accounts are loaded (all pages)
-        if (accountsCache.length === 0) {
-          accountsCache = await fetchAllPages<VitallyAccount>('/resources/accounts');
-        }
+        const accounts = await getCachedAccounts(workspace, control);
 
         // Search for accounts with matching names (case insensitive)
         const nameToMatch = name.toLowerCase();
-        const matchingAccounts = accountsCache.filter(account =>
+        const matchingAccounts = accounts.filter(account =>
           account.name.toLowerCase().includes(nameToMatch)
         );
 
@@ -1046,136 +1455,176 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
                 npsScore: account.npsScore,
                 usersCount: account.usersCount,
                 lastSeenTimestamp: account.lastSeenTimestamp,
-                uri: `vitally://account/${account.id}`
+                uri: accountUri(workspace, account.id)
               }))
             }, null, 2)
           }]
         };
       } catch (error) {
-        throw new Error(`Failed to find accounts by name: ${error}`);
+        throw failure("Failed to find accounts by name", error);
       }
     }
-
-    case "get_account_conversations": {
-      const accountId = request.params.arguments?.accountId as string;
-      const limit = request.params.arguments?.limit as number || 10;
-
-      if (!accountId) {
-        throw new Error("Account ID is required");
-      }
-
+  }),
+  tool<{ accountId: string; limit: number } & PaginationArgs & DateWindowArgs>({
+    name: "get_account_conversations",
+    description: "Vitally tool to get recent conversations for an account",
+    inputSchema: {
+      type: "object",
+      properties: {
+        accountId: ACCOUNT_REFERENCE_PROPERTY,
+        limit: {
+          type: "integer",
+          description: "Maximum number of conversations to return per page (default: 10)",
+          minimum: 1,
+          maximum: 100,
+          default: 10
+        },
+        ...dateWindowProperties("updatedAt (last activity)"),
+        ...PAGINATION_PROPERTIES
+      },
+      required: ["accountId"]
+    },
+    handler: async ({ accountId, limit, since, until, ...pagination }, { workspace, control }) => {
       try {
-        const queryParams = new URLSearchParams();
-        queryParams.append('limit', limit.toString());
-
-        const conversations = await callVitallyAPI<VitallyPaginatedResponse<VitallyConversation>>(
-          `/resources/accounts/${accountId}/conversations?${queryParams}`
+        const conversations = await fetchAccountRecords<VitallyConversation>(
+          workspace, accountId, 'conversations', {}, limit, pagination, { field: 'updatedAt', since, until }, control
         );
 
-        return {
-          content: [{
-            type: "text",
-            text: JSON.stringify({
-              count: conversations.results.length,
-              conversations: conversations.results.map(conv => ({
-                id: conv.id,
-                subject: conv.subject,
-                createdAt: conv.createdAt,
-                updatedAt: conv.updatedAt
-              }))
-            }, null, 2)
-          }]
-        };
+        return listToolResult("get_account_conversations", 'json', {
+          key: "conversations",
+          summary: {
+            count: conversations.results.length,
+            window: conversations.window,
+            nextCursor: conversations.nextCursor,
+            truncated: conversations.truncated
+          },
+          rows: conversations.results.map(conv => ({
+            id: conv.id,
+            subject: conv.subject,
+            createdAt: conv.createdAt,
+            updatedAt: conv.updatedAt
+          }))
+        });
       } catch (error) {
-        throw new Error(`Failed to get account conversations: ${error}`);
+        throw failure("Failed to get account conversations", error);
       }
     }
-
-    case "get_account_tasks": {
-      const accountId = request.params.arguments?.accountId as string;
-      const status = request.params.arguments?.status as string | undefined;
-      const limit = request.params.arguments?.limit as number || 10;
-
-      if (!accountId) {
-        throw new Error("Account ID is required");
-      }
-
+  }),
+  tool<{ accountId: string; status?: string; limit: number; format: OutputFormat } & PaginationArgs & DateWindowArgs>({
+    name: "get_account_tasks",
+    description: "Vitally tool to get tasks for an account",
+    inputSchema: {
+      type: "object",
+      properties: {
+        accountId: ACCOUNT_REFERENCE_PROPERTY,
+        status: {
+          type: "string",
+          description: "Filter tasks by status (e.g., 'open', 'completed')"
+        },
+        limit: {
+          type: "integer",
+          description: "Maximum number of tasks to return per page (default: 10)",
+          minimum: 1,
+          maximum: 100,
+          default: 10
+        },
+        ...dateWindowProperties("createdAt"),
+        ...PAGINATION_PROPERTIES,
+        format: FORMAT_PROPERTY
+      },
+      required: ["accountId"]
+    },
+    handler: async ({ accountId, status, limit, format, since, until, ...pagination }, { workspace, control }) => {
       try {
-        const queryParams = new URLSearchParams();
-        queryParams.append('limit', limit.toString());
-        if (status) {
-          queryParams.append('status', status);
-        }
-
-        const tasks = await callVitallyAPI<VitallyPaginatedResponse<VitallyTask>>(
-          `/resources/accounts/${accountId}/tasks?${queryParams}`
+        const tasks = await fetchAccountRecords<VitallyTask>(
+          workspace, accountId, 'tasks', status ? { status } : {}, limit, pagination, { field: 'createdAt', since, until }, control
         );
 
-        return {
-          content: [{
-            type: "text",
-            text: JSON.stringify({
-              count: tasks.results.length,
-              tasks: tasks.results.map(task => ({
-                id: task.id,
-                title: task.title,
-                description: task.description,
-                status: task.status,
-                dueDate: task.dueDate,
-                createdAt: task.createdAt,
-                updatedAt: task.updatedAt
-              }))
-            }, null, 2)
-          }]
-        };
+        return listToolResult("get_account_tasks", format, {
+          key: "tasks",
+          summary: {
+            count: tasks.results.length,
+            window: tasks.window,
+            nextCursor: tasks.nextCursor,
+            truncated: tasks.truncated
+          },
+          rows: tasks.results.map(task => ({
+            id: task.id,
+            title: task.title,
+            description: task.description,
+            status: task.status,
+            dueDate: task.dueDate,
+            createdAt: task.createdAt,
+            updatedAt: task.updatedAt
+          }))
+        }, tasks.nextCursor);
       } catch (error) {
-        throw new Error(`Failed to get account tasks: ${error}`);
+        throw failure("Failed to get account tasks", error);
       }
     }
-
-    case "get_account_notes": {
-      const accountId = request.params.arguments?.accountId as string;
-      const limit = request.params.arguments?.limit as number || 10;
-
-      if (!accountId) {
-        throw new Error("Account ID is required");
-      }
-
+  }),
+  tool<{ accountId: string; limit: number; format: OutputFormat } & PaginationArgs & DateWindowArgs>({
+    name: "get_account_notes",
+    description: "Vitally tool to retrieve notes for an account",
+    inputSchema: {
+      type: "object",
+      properties: {
+        accountId: ACCOUNT_REFERENCE_PROPERTY,
+        limit: {
+          type: "integer",
+          description: "Maximum number of notes to return per page (default: 10)",
+          minimum: 1,
+          maximum: 100,
+          default: 10
+        },
+        ...dateWindowProperties("createdAt"),
+        ...PAGINATION_PROPERTIES,
+        format: FORMAT_PROPERTY
+      },
+      required: ["accountId"]
+    },
+    handler: async ({ accountId, limit, format, since, until, ...pagination }, { workspace, control }) => {
       try {
-        const queryParams = new URLSearchParams();
-        queryParams.append('limit', limit.toString());
-
-        const notes = await callVitallyAPI<VitallyPaginatedResponse<VitallyNote>>(
-          `/resources/accounts/${accountId}/notes?${queryParams}`
+        const notes = await fetchAccountRecords<VitallyNote>(
+          workspace, accountId, 'notes', {}, limit, pagination, { field: 'createdAt', since, until }, control
         );
 
-        return {
-          content: [{
-            type: "text",
-            text: JSON.stringify({
-              count: notes.results.length,
-              notes: notes.results.map(note => ({
-                id: note.id,
-                content: note.content,
-                createdAt: note.createdAt,
-                updatedAt: note.updatedAt
-              }))
-            }, null, 2)
-          }]
-        };
+        return listToolResult("get_account_notes", format, {
+          key: "notes",
+          summary: {
+            count: notes.results.length,
+            window: notes.window,
+            nextCursor: notes.nextCursor,
+            truncated: notes.truncated
+          },
+          rows: notes.results.map(note => ({
+            id: note.id,
+            content: note.content,
+            createdAt: note.createdAt,
+            updatedAt: note.updatedAt
+          }))
+        }, notes.nextCursor);
       } catch (error) {
-        throw new Error(`Failed to get account notes: ${error}`);
+        throw failure("Failed to get account notes", error);
       }
     }
-
-    case "get_note_by_id": {
-      const noteId = request.params.arguments?.noteId as string;
-      if (!noteId) {
-        throw new Error("Note ID is required");
-      }
-
+  }),
+  tool<{ noteId: string }>({
+    name: "get_note_by_id",
+    description: "Vitally tool to retrieve full content of a specific note by ID",
+    inputSchema: {
+      type: "object",
+      properties: {
+        noteId: {
+          type: "string",
+          description: "Vitally note ID"
+        }
+      },
+      required: ["noteId"]
+    },
+    handler: async ({ noteId }, { workspace }) => {
       try {
-        const note = await callVitallyAPI<VitallyNote>(`/resources/notes/${noteId}`);
+        const note = await callVitallyAPI<VitallyNote>(workspace, `/resources/notes/${noteId}`);
         return {
           content: [{
             type: "text",
@@ -1183,23 +1632,51 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           }]
         };
       } catch (error) {
-        throw new Error(`Failed to get note by ID: ${error}`);
+        throw failure("Failed to get note by ID", error);
       }
     }
-
-    case "create_account_note": {
-      const accountId = request.params.arguments?.accountId as string;
-      const content = request.params.arguments?.content as string;
-
-      if (!accountId || !content) {
-        throw new Error("Account ID and content are required");
+  }),
+  tool<{ accountId: string; content: string; dryRun?: boolean; confirmationToken?: string }>({
+    name: "create_account_note",
+    description: "Vitally tool to create a new note for an account",
+    mutating: true,
+    inputSchema: {
+      type: "object",
+      properties: {
+        accountId: ACCOUNT_REFERENCE_PROPERTY,
+        content: {
+          type: "string",
+          description: "Content of the note"
+        },
+        dryRun: {
+          type: "boolean",
+          description: "If true, returns the request that would be sent without creating the note"
+        },
+        confirmationToken: {
+          type: "string",
+          description: "Token from a previous call, required to apply the write when the server asks for confirmation"
+        }
+      },
+      required: ["accountId", "content"]
+    },
+    handler: async (args, { workspace }) => {
+      const { accountId, content } = args;
+
+      const endpoint = `/resources/accounts/${accountId}/notes`;
+      const preview = previewWrite("create_account_note", workspace, args, {
+        request: { method: 'POST', url: `${workspace.baseUrl}${endpoint}`, body: { content } }
+      });
+      if (preview) {
+        return preview;
       }
 
       try {
         const note = await callVitallyAPI<VitallyNote>(
-          `/resources/accounts/${accountId}/notes`,
+          workspace,
+          endpoint,
           'POST',
-          { content }
+          { content },
+          { tool: "create_account_note", arguments: { accountId, content }, accountId }
         );
 
         return {
@@ -1216,68 +1693,242 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           }]
         };
       } catch (error) {
-        throw new Error(`Failed to create note: ${error}`);
+        throw failure("Failed to create note", error);
       }
     }
-
-    case "refresh_accounts": {
+  }),
+  tool<{
+    status: string;
+    fetchAll: boolean;
+    fullSync?: boolean;
+    fields?: string[];
+    maxChars: number;
+    cursor?: string;
+    format: OutputFormat;
+  }>({
+    name: "refresh_accounts",
+    description: "Vitally tool to refresh the list of accounts. By default fetches ALL accounts across all pages (cursor-based pagination). Set fetchAll to false to fetch only the first page. Use fields to pick the properties and traits you need; output over maxChars is cut off between accounts and returns a nextCursor to fetch the rest.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        status: {
+          type: "string",
+          description: "Filter by account status: 'active' (default), 'churned', or 'activeOrChurned'",
+          enum: ACCOUNT_STATUSES,
+          default: "active"
+        },
+        fetchAll: {
+          type: "boolean",
+          description: "If true (default), fetches all accounts across all pages. If false, fetches only the first page (up to 100).",
+          default: true
+        },
+        fullSync: {
+          type: "boolean",
+          description: "If true, refetches every account instead of only those updated since the last sync (default: false)"
+        },
+        fields: {
+          type: "array",
+          items: { type: "string" },
+          description: "Account properties to include, e.g. ['id', 'name', 'mrr']. Use 'traits.<key>' for one trait (e.g. 'traits.vitally.custom.plan') or 'traits' for all of them. Defaults to the key success fields and all traits."
+        },
+        maxChars: {
+          type: "integer",
+          description: "Maximum size of the output in characters, about 4 per token (default: 50000). Larger results are cut off between accounts and return a nextCursor.",
+          minimum: 1000,
+          default: 50000
+        },
+        cursor: {
+          type: "string",
+          description: "nextCursor from a previous call, to continue a cut-off result from the cached accounts without syncing again"
+        },
+        format: FORMAT_PROPERTY
+      }
+    },
+    handler: async ({ status, fetchAll, fullSync, fields, maxChars, cursor, format }, { workspace, control }) => {
       try {
-        const status = request.params.arguments?.status as string || 'active';
-        const fetchAll = request.params.arguments?.fetchAll !== false; // default true
-
-        if (fetchAll) {
-          // Fetch ALL accounts across all pages
-          accountsCache = await fetchAllPages<VitallyAccount>(
-            '/resources/accounts',
-            { status }
-          );
+        let entry: AccountCacheEntry<VitallyAccount>;
+        let offset = 0;
+        if (cursor) {
+          // Continue from the same cached list the cursor was issued for
+          const position = decodeCursor<AccountsCursor>(cursor);
+          const cached = [getAccountCacheEntry(workspace, position.status), firstPageCache.get(accountCacheKey(workspace, position.status))]
+            .find(candidate => candidate?.lastSyncAt === position.syncedAt);
+          if (!cached) {
+            throw new Error("The cursor has expired because the accounts were synced again since. Call refresh_accounts without a cursor to start over.");
+          }
+          entry = cached;
+          offset = position.offset;
+        } else if (fetchAll) {
+          // Fetch ALL accounts, pulling only changes since the last sync where possible
+          entry = await syncAccounts(workspace, status, fullSync ? 'full' : 'incremental', control);
         } else {
-          // Fetch only the first page (legacy behavior)
+          // Fetch only the first page (legacy behavior). Not persisted since it's partial.
           const response = await callVitallyAPI<VitallyPaginatedResponse<VitallyAccount>>(
+            workspace,
             `/resources/accounts?limit=100&status=${status}`
           );
-          accountsCache = response.results || [];
+          const now = new Date().toISOString();
+          entry = {
+            workspace: workspace.name,
+            status,
+            complete: false,
+            lastFullSyncAt: now,
+            lastSyncAt: now,
+            accounts: response.results || []
+          };
+          firstPageCache.set(accountCacheKey(workspace, status), entry);
         }
+        const accounts = entry.accounts.slice(offset);
+
+        // Summary information about accounts with key success fields, unless specific fields were asked for
+        const rows = accounts.map(account => fields ? selectFields(account, fields) : ({
+          id: account.id,
+          name: account.name,
+          externalId: account.externalId,
+          healthScore: account.healthScore,
+          mrr: account.mrr,
+          npsScore: account.npsScore,
+          usersCount: account.usersCount,
+          churnedAt: account.churnedAt,
+          lastSeenTimestamp: account.lastSeenTimestamp,
+          nextRenewalDate: account.nextRenewalDate,
+          csmId: account.csmId,
+          traits: account.traits
+        }));
+
+        const nextCursor = (returned: number) => offset + returned < entry.accounts.length
+          ? encodeCursor({ status: entry.status, syncedAt: entry.lastSyncAt, offset: offset + returned })
+          : undefined;
+        const page = (returned: number): ListResult => ({
+          key: "accounts",
+          summary: {
+            workspace: workspace.name,
+            count: entry.accounts.length,
+            offset,
+            returned,
+            fetchedAllPages: entry.complete,
+            lastSyncAt: entry.lastSyncAt,
+            lastFullSyncAt: entry.lastFullSyncAt,
+            nextCursor: nextCursor(returned)
+          },
+          rows: rows.slice(0, returned)
+        });
+        const count = fitToBudget(rows.length, maxChars, returned => renderList(format, page(returned)));
 
-        // Format summary information about accounts with key success fields
-        const summary = {
-          count: accountsCache.length,
-          fetchedAllPages: fetchAll,
-          accounts: accountsCache.map(account => ({
-            id: account.id,
-            name: account.name,
-            externalId: account.externalId,
-            healthScore: account.healthScore,
-            mrr: account.mrr,
-            npsScore: account.npsScore,
-            usersCount: account.usersCount,
-            churnedAt: account.churnedAt,
-            lastSeenTimestamp: account.lastSeenTimestamp,
-            nextRenewalDate: account.nextRenewalDate,
-            csmId: account.csmId,
-            traits: account.traits
-          }))
-        };
-
-        return {
-          content: [{
-            type: "text",
-            text: JSON.stringify(summary, null, 2)
-          }]
-        };
+        return listToolResult("refresh_accounts", format, page(count), nextCursor(count));
       } catch (error) {
-        throw new Error(`Failed to refresh accounts: ${error}`);
+        throw failure("Failed to refresh accounts", error);
       }
     }
+  }),
+  tool<{}>({
+    name: "get_cache_status",
+    description: "Vitally tool to report the state of the account cache: number of accounts, age, last sync times and cache file size",
+    inputSchema: {
+      type: "object",
+      properties: {}
+    },
+    handler: async (_args, { workspace }) => {
+      // The lookup cache always, and the other statuses once they've been synced
+      const caches = ACCOUNT_STATUSES
+        .map(status => describeCacheEntry(ACCOUNT_CACHE_OPTIONS, workspace.name, status, getAccountCacheEntry(workspace, status)))
+        .filter(cache => cache.cached || cache.status === LOOKUP_STATUS);
 
-    case "get_account_details": {
-      const accountId = request.params.arguments?.accountId as string;
-      if (!accountId) {
-        throw new Error("Account ID is required");
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify({ lookupStatus: LOOKUP_STATUS, caches }, null, 2)
+        }]
+      };
+    }
+  }),
+  tool<{ accountId?: string; tool?: string; workspace?: string; since?: string; until?: string; limit: number }>({
+    name: "get_audit_log",
+    description: "Vitally tool to review writes made through this server (trait updates, notes), most recent first. Each entry has the time, tool, arguments, target account, previous values and response status.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        accountId: {
+          type: "string",
+          description: "Only show writes to this Vitally account ID"
+        },
+        tool: {
+          type: "string",
+          description: "Only show writes made by this tool (e.g., 'update_account_traits')"
+        },
+        since: {
+          type: "string",
+          description: "Only show writes at or after this ISO 8601 date/time"
+        },
+        until: {
+          type: "string",
+          description: "Only show writes at or before this ISO 8601 date/time"
+        },
+        limit: {
+          type: "integer",
+          description: "Maximum number of entries to return (default: 50)",
+          minimum: 1,
+          default: 50
+        }
       }
+    },
+    handler: async (args, { workspace }) => {
+      const entries = readAuditLog({
+        accountId: args.accountId,
+        tool: args.tool,
+        // Only narrow to a workspace when one was asked for explicitly
+        workspace: args.workspace ? workspace.name : undefined,
+        since: args.since,
+        until: args.until,
+        limit: args.limit
+      });
+
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify({
+            count: entries.length,
+            entries
+          }, null, 2)
+        }]
+      };
+    }
+  }),
+  tool<{ workspace?: string }>({
+    name: "doctor",
+    description: "Vitally tool to check the server's configuration and its connection to Vitally. Checks each workspace's API key, data center and base URL, calls the accounts, customFields and users/search endpoints, and reports each check as pass/warn/fail with a hint on how to fix failures. Checks every workspace unless one is given.",
+    inputSchema: {
+      type: "object",
+      properties: {}
+    },
+    handler: async (args) => {
+      const report = await runDoctor(
+        args.workspace ? [getWorkspace(args.workspace)] : listWorkspaces(),
+        (workspace, endpoint) => callVitallyAPI(workspace, endpoint),
+        doctorOptions()
+      );
 
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify(report, null, 2)
+        }]
+      };
+    }
+  }),
+  tool<{ accountId: string }>({
+    name: "get_account_details",
+    description: "Get full account details including traits, success metrics, health score, MRR, NPS score, timestamps, CSM assignment, segments, and all custom properties",
+    inputSchema: {
+      type: "object",
+      properties: {
+        accountId: ACCOUNT_REFERENCE_PROPERTY
+      },
+      required: ["accountId"]
+    },
+    handler: async ({ accountId }, { workspace }) => {
       try {
-        const account = await callVitallyAPI<VitallyAccount>(`/resources/accounts/${accountId}`);
+        const account = await callVitallyAPI<VitallyAccount>(workspace, `/resources/accounts/${accountId}`);
         return {
           content: [{
             type: "text",
@@ -1285,18 +1936,27 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           }]
         };
       } catch (error) {
-        throw new Error(`Failed to get account details: ${error}`);
+        throw failure("Failed to get account details", error);
       }
     }
-
-    case "list_custom_traits": {
-      const model = request.params.arguments?.model as string;
-      if (!model) {
-        throw new Error("Model type is required (e.g., accounts, users, notes, tasks, projects, organizations)");
-      }
-
+  }),
+  tool<{ model: string }>({
+    name: "list_custom_traits",
+    description: "List all custom trait definitions for a given object type. Returns trait labels, data types, and API keys needed for reading/writing traits.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        model: {
+          type: "string",
+          description: "Object type to list traits for",
+          enum: TRAIT_MODELS
+        }
+      },
+      required: ["model"]
+    },
+    handler: async ({ model }, { workspace }) => {
       try {
-        const traits = await callVitallyAPI<VitallyCustomField[]>(`/resources/customFields?model=${model}`);
+        const traits = await callVitallyAPI<VitallyCustomField[]>(workspace, `/resources/customFields?model=${model}`);
         return {
           content: [{
             type: "text",
@@ -1313,30 +1973,64 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           }]
         };
       } catch (error) {
-        throw new Error(`Failed to list custom traits: ${error}`);
+        throw failure("Failed to list custom traits", error);
       }
     }
+  }),
+  tool<{ accountId: string; traits: Record<string, any>; dryRun?: boolean; confirmationToken?: string }>({
+    name: "update_account_traits",
+    description: "Update custom traits on a Vitally account. Traits are merged with existing values. Set a trait to null to remove it. Use list_custom_traits to discover available trait keys. Returns an operationId that undo_trait_update can use to revert the change.",
+    mutating: true,
+    inputSchema: {
+      type: "object",
+      properties: {
+        accountId: ACCOUNT_REFERENCE_PROPERTY,
+        traits: {
+          type: "object",
+          description: "Key-value pairs of traits to set (e.g., { 'vitally.custom.myTrait': 'value' }). Set to null to remove."
+        },
+        dryRun: {
+          type: "boolean",
+          description: "If true, returns the request that would be sent and a before/after diff of each trait without updating the account"
+        },
+        confirmationToken: {
+          type: "string",
+          description: "Token from a previous call, required to apply the write when the server asks for confirmation"
+        }
+      },
+      required: ["accountId", "traits"]
+    },
+    handler: async (args, { workspace }) => {
+      const { accountId, traits } = args;
+      const endpoint = `/resources/accounts/${accountId}`;
 
-    case "update_account_traits": {
-      const accountId = request.params.arguments?.accountId as string;
-      const traits = request.params.arguments?.traits as Record<string, any>;
+      // Current values are needed for the dry-run diff and the audit log
+      let current: VitallyAccount;
+      try {
+        current = await callVitallyAPI<VitallyAccount>(workspace, endpoint);
+      } catch (error) {
+        throw failure("Failed to load account before updating traits", error);
+      }
 
-      if (!accountId || !traits) {
-        throw new Error("Account ID and traits are required");
+      const previewResult = previewWrite("update_account_traits", workspace, args, {
+        request: { method: 'PUT', url: `${workspace.baseUrl}${endpoint}`, body: { traits } },
+        account: { id: current.id, name: current.name },
+        diff: diffTraits(current.traits, traits)
+      });
+      if (previewResult) {
+        return previewResult;
       }
 
       try {
-        const updated = await callVitallyAPI<VitallyAccount>(
-          `/resources/accounts/${accountId}`,
-          'PUT',
-          { traits }
-        );
+        const { updated, operationId } = await applyTraitUpdate(workspace, "update_account_traits", accountId, current, traits);
 
         return {
           content: [{
             type: "text",
             text: JSON.stringify({
               success: true,
+              operationId,
+              undoHint: `Call undo_trait_update with operationId "${operationId}" to revert this change`,
               account: {
                 id: updated.id,
                 name: updated.name,
@@ -1346,99 +2040,944 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           }]
         };
       } catch (error) {
-        throw new Error(`Failed to update account traits: ${error}`);
+        throw failure("Failed to update account traits", error);
       }
     }
+  }),
+  tool<{ operationId: string; force?: boolean; dryRun?: boolean; confirmationToken?: string }>({
+    name: "undo_trait_update",
+    description: "Revert a trait update made with update_account_traits, using the operationId it returned. Restores the previous values and removes traits that didn't exist before.",
+    mutating: true,
+    inputSchema: {
+      type: "object",
+      properties: {
+        operationId: {
+          type: "string",
+          description: "Operation ID returned by update_account_traits"
+        },
+        force: {
+          type: "boolean",
+          description: "Restore the previous values even if the traits have been changed again since the update (default: false)"
+        },
+        dryRun: {
+          type: "boolean",
+          description: "If true, returns the request that would be sent and a before/after diff of each trait without updating the account"
+        },
+        confirmationToken: {
+          type: "string",
+          description: "Token from a previous call, required to apply the write when the server asks for confirmation"
+        }
+      },
+      required: ["operationId"]
+    },
+    handler: async (args, { workspace }) => {
+      const { operationId } = args;
 
-    case "get_account_nps": {
-      const accountId = request.params.arguments?.accountId as string;
-      const limit = request.params.arguments?.limit as number || 10;
+      const force = args.force === true;
 
-      if (!accountId) {
-        throw new Error("Account ID is required");
+      const snapshot = findTraitSnapshot(operationId);
+      if (!snapshot) {
+        throw new Error(`No trait update found with operation ID ${operationId}`);
+      }
+      if (snapshot.undoneAt) {
+        throw new Error(`Trait update ${operationId} was already undone at ${snapshot.undoneAt}`);
       }
 
+      // Undo always targets the workspace the update was made in
+      const snapshotWorkspace = getWorkspace(snapshot.workspace);
+      const endpoint = `/resources/accounts/${snapshot.accountId}`;
+
+      let current: VitallyAccount;
       try {
-        const queryParams = new URLSearchParams();
-        queryParams.append('limit', limit.toString());
+        current = await callVitallyAPI<VitallyAccount>(snapshotWorkspace, endpoint);
+      } catch (error) {
+        throw failure("Failed to load account before undoing trait update", error);
+      }
 
-        const npsResponses = await callVitallyAPI<VitallyPaginatedResponse<VitallyNpsResponse>>(
-          `/resources/accounts/${accountId}/npsResponses?${queryParams}`
+      // Refuse to overwrite traits someone else has changed since, unless forced
+      const conflicts = Object.keys(snapshot.applied).filter(key =>
+        JSON.stringify(current.traits?.[key] ?? null) !== JSON.stringify(snapshot.applied[key] ?? null)
+      );
+      if (conflicts.length > 0 && !force) {
+        throw new Error(`Traits changed since update ${operationId}: ${conflicts.join(', ')}. Pass force: true to restore the previous values anyway.`);
+      }
+
+      const previewResult = previewWrite("undo_trait_update", snapshotWorkspace, args, {
+        request: { method: 'PUT', url: `${snapshotWorkspace.baseUrl}${endpoint}`, body: { traits: snapshot.previous } },
+        account: { id: current.id, name: current.name },
+        diff: diffTraits(current.traits, snapshot.previous)
+      });
+      if (previewResult) {
+        return previewResult;
+      }
+
+      try {
+        const { updated, operationId: undoOperationId } = await applyTraitUpdate(
+          snapshotWorkspace,
+          "undo_trait_update",
+          snapshot.accountId,
+          current,
+          snapshot.previous
         );
+        markSnapshotUndone(operationId);
 
         return {
           content: [{
             type: "text",
             text: JSON.stringify({
-              count: npsResponses.results.length,
-              responses: npsResponses.results.map(r => ({
-                id: r.id,
-                userId: r.userId,
-                score: r.score,
-                feedback: r.feedback,
-                respondedAt: r.respondedAt
-              }))
+              success: true,
+              undoneOperationId: operationId,
+              // The undo is itself undoable, which re-applies the original update
+              operationId: undoOperationId,
+              restored: snapshot.previous,
+              account: {
+                id: updated.id,
+                name: updated.name,
+                traits: updated.traits
+              }
             }, null, 2)
           }]
         };
       } catch (error) {
-        throw new Error(`Failed to get NPS responses: ${error}`);
+        throw failure("Failed to undo trait update", error);
       }
     }
+  }),
+  tool<{ accountId: string; limit: number; format: OutputFormat } & PaginationArgs & DateWindowArgs>({
+    name: "get_account_nps",
+    description: "Get NPS survey responses for a specific account, including scores and feedback from users",
+    inputSchema: {
+      type: "object",
+      properties: {
+        accountId: ACCOUNT_REFERENCE_PROPERTY,
+        limit: {
+          type: "integer",
+          description: "Maximum number of NPS responses to return per page (default: 10)",
+          minimum: 1,
+          maximum: 100,
+          default: 10
+        },
+        ...dateWindowProperties("respondedAt"),
+        ...PAGINATION_PROPERTIES,
+        format: FORMAT_PROPERTY
+      },
+      required: ["accountId"]
+    },
+    handler: async ({ accountId, limit, format, since, until, ...pagination }, { workspace, control }) => {
+      try {
+        const npsResponses = await fetchAccountRecords<VitallyNpsResponse>(
+          workspace, accountId, 'npsResponses', {}, limit, pagination, { field: 'respondedAt', since, until }, control
+        );
 
-    case "get_account_projects": {
-      const accountId = request.params.arguments?.accountId as string;
-      const limit = request.params.arguments?.limit as number || 10;
-
-      if (!accountId) {
-        throw new Error("Account ID is required");
+        return listToolResult("get_account_nps", format, {
+          key: "responses",
+          summary: {
+            count: npsResponses.results.length,
+            window: npsResponses.window,
+            nextCursor: npsResponses.nextCursor,
+            truncated: npsResponses.truncated
+          },
+          rows: npsResponses.results.map(r => ({
+            id: r.id,
+            userId: r.userId,
+            score: r.score,
+            feedback: r.feedback,
+            respondedAt: r.respondedAt
+          }))
+        }, npsResponses.nextCursor);
+      } catch (error) {
+        throw failure("Failed to get NPS responses", error);
       }
-
+    }
+  }),
+  tool<{ accountId: string; limit: number; format: OutputFormat } & PaginationArgs>({
+    name: "get_account_projects",
+    description: "Get projects (e.g., onboarding, implementation) for a specific account, including status, dates, and traits",
+    inputSchema: {
+      type: "object",
+      properties: {
+        accountId: ACCOUNT_REFERENCE_PROPERTY,
+        limit: {
+          type: "integer",
+          description: "Maximum number of projects to return per page (default: 10)",
+          minimum: 1,
+          maximum: 100,
+          default: 10
+        },
+        ...PAGINATION_PROPERTIES,
+        format: FORMAT_PROPERTY
+      },
+      required: ["accountId"]
+    },
+    handler: async ({ accountId, limit, format, ...pagination }, { workspace, control }) => {
       try {
-        const queryParams = new URLSearchParams();
-        queryParams.append('limit', limit.toString());
-
-        const projects = await callVitallyAPI<VitallyPaginatedResponse<VitallyProject>>(
-          `/resources/accounts/${accountId}/projects?${queryParams}`
+        const projects = await fetchAccountRecords<VitallyProject>(
+          workspace, accountId, 'projects', {}, limit, pagination, undefined, control
         );
 
-        return {
-          content: [{
-            type: "text",
-            text: JSON.stringify({
-              count: projects.results.length,
-              projects: projects.results.map(p => ({
-                id: p.id,
-                name: p.name,
-                durationInDays: p.durationInDays,
-                targetStartDate: p.targetStartDate,
-                actualStartDate: p.actualStartDate,
-                actualCompletionDate: p.actualCompletionDate,
-                projectStatusId: p.projectStatusId,
-                projectCategoryId: p.projectCategoryId,
-                traits: p.traits,
-                createdAt: p.createdAt,
-                updatedAt: p.updatedAt
-              }))
-            }, null, 2)
-          }]
-        };
+        return listToolResult("get_account_projects", format, {
+          key: "projects",
+          summary: {
+            count: projects.results.length,
+            nextCursor: projects.nextCursor,
+            truncated: projects.truncated
+          },
+          rows: projects.results.map(p => ({
+            id: p.id,
+            name: p.name,
+            durationInDays: p.durationInDays,
+            targetStartDate: p.targetStartDate,
+            actualStartDate: p.actualStartDate,
+            actualCompletionDate: p.actualCompletionDate,
+            projectStatusId: p.projectStatusId,
+            projectCategoryId: p.projectCategoryId,
+            traits: p.traits,
+            createdAt: p.createdAt,
+            updatedAt: p.updatedAt
+          }))
+        }, projects.nextCursor);
       } catch (error) {
-        throw new Error(`Failed to get account projects: ${error}`);
+        throw failure("Failed to get account projects", error);
       }
     }
+  })
+];
+
+// Which tools this deployment exposes (read-only mode, allow/deny lists)
+const TOOL_POLICY = createToolPolicy(toolPolicyConfigFromEnv());
 
-    default:
-      throw new Error("Unknown tool");
+function isToolEnabled(tool: VitallyTool): boolean {
+  return !TOOL_POLICY.disabledReason(tool.name, !!tool.mutating);
+}
+
+/**
+ * A tool's input schema as advertised to clients and used for validation.
+ * Every tool that talks to Vitally accepts an optional workspace selector.
+ */
+function exposedInputSchema(tool: VitallyTool): ObjectSchema {
+  if (tool.name === "search_tools") {
+    return tool.inputSchema;
   }
-});
+
+  const workspaceNames = listWorkspaces().map(workspace => workspace.name);
+  return {
+    ...tool.inputSchema,
+    properties: {
+      ...tool.inputSchema.properties,
+      workspace: {
+        type: "string",
+        description: `Vitally workspace to use (default: '${workspaceNames[0]}')`,
+        enum: workspaceNames
+      }
+    }
+  };
+}
 
 /**
- * Start the server using stdio transport
+ * Summary of the enabled tools for use in search_tools
+ */
+const AVAILABLE_TOOLS = TOOLS.filter(isToolEnabled).map(tool => ({
+  name: tool.name,
+  description: tool.description,
+  requiredParams: tool.inputSchema.required || []
+}));
+
+/**
+ * Handler that lists available tools
+ */
+async function listTools() {
+  return {
+    tools: TOOLS.filter(isToolEnabled).map(tool => ({
+      name: tool.name,
+      description: tool.description,
+      inputSchema: exposedInputSchema(tool)
+    }))
+  };
+}
+
+/**
+ * Look a tool up in the registry, validate its arguments and run its
+ * handler. Failures are thrown.
+ */
+async function invokeTool(request: CallToolRequest, control: FetchControl = {}): Promise<ToolResult> {
+  const tool = TOOLS.find(candidate => candidate.name === request.params.name);
+  if (!tool) {
+    throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${request.params.name}`);
+  }
+
+  const disabledReason = TOOL_POLICY.disabledReason(tool.name, !!tool.mutating);
+  if (disabledReason) {
+    throw new Error(`Tool '${tool.name}' is disabled because ${disabledReason}`);
+  }
+
+  const args = validateArguments(tool.name, exposedInputSchema(tool), request.params.arguments);
+  const workspace = getWorkspace(args.workspace as string | undefined);
+
+  if (tool.inputSchema.properties.accountId === ACCOUNT_REFERENCE_PROPERTY && typeof args.accountId === "string") {
+    const accountId = await resolveAccountId(workspace, args.accountId, control, !!tool.mutating);
+    if (accountId !== args.accountId) {
+      logger.debug(`resolved account '${args.accountId}' to ${accountId}`);
+      args.accountId = accountId;
+    }
+  }
+
+  return tool.handler(args, { workspace, control });
+}
+
+/**
+ * A failed tool call as an `isError` result, with the details of the
+ * Vitally API error behind it (or the candidates for an ambiguous account)
+ * and a hint on what to do next
+ */
+function toolErrorResult(error: unknown): ToolResult {
+  const details = error instanceof AccountReferenceError ? error : findApiError(error);
+  return {
+    isError: true,
+    content: [{
+      type: "text",
+      text: JSON.stringify({
+        error: error instanceof Error ? error.message : String(error),
+        ...details?.toJSON()
+      }, null, 2)
+    }]
+  };
+}
+
+/**
+ * Handler for tool calls. Protocol problems (unknown tool, invalid
+ * arguments) are MCP errors; the tool failing is reported in its result.
+ */
+async function callTool(request: CallToolRequest, control: FetchControl = {}): Promise<ToolResult> {
+  try {
+    return await invokeTool(request, control);
+  } catch (error) {
+    if (error instanceof McpError) {
+      throw error;
+    }
+    return toolErrorResult(error);
+  }
+}
+
+interface PromptContext {
+  workspace: Workspace;
+  control: FetchControl;
+  // Run a tool in the prompt's workspace and return its text
+  runTool: (name: string, args: Record<string, unknown>) => Promise<string>;
+}
+
+type VitallyPrompt = PromptDefinition<PromptContext>;
+
+const ACCOUNT_ID_ARGUMENT: PromptArgument = { name: "accountId", description: "Account: its Vitally ID, external ID, name or email domain", required: true };
+const WORKSPACE_ARGUMENT: PromptArgument = { name: "workspace", description: "Vitally workspace to use (default: the first configured)" };
+
+// Accounts covered in detail by prompts that span many accounts
+const PROMPT_ACCOUNT_LIMIT = 10;
+
+/**
+ * An account's name for prompt descriptions, from its details section
+ */
+function accountNameFromDetails(details: string, accountId: string): string {
+  try {
+    return JSON.parse(details).name || accountId;
+  } catch {
+    return accountId;
+  }
+}
+
+/**
+ * Every prompt this server provides
+ */
+const PROMPTS: VitallyPrompt[] = [
+  {
+    name: "qbr_prep",
+    description: "Prepare a quarterly business review for an account from its details, health, activity, NPS and projects",
+    arguments: [ACCOUNT_ID_ARGUMENT, WORKSPACE_ARGUMENT],
+    build: async ({ accountId }, { runTool }) => {
+      const details = await runTool("get_account_details", { accountId });
+      const name = accountNameFromDetails(details, accountId);
+
+      return {
+        description: `QBR prep for ${name}`,
+        sections: [
+          { title: `Account details: ${name}`, text: details },
+          ...await Promise.all([
+            loadSection("Health scores", () => runTool("get_account_health", { accountId })),
+            loadSection("Notes from the last quarter", () => runTool("get_account_notes", { accountId, since: "90d", all: true, maxRecords: 50, format: "markdown" })),
+            loadSection("Tasks", () => runTool("get_account_tasks", { accountId, limit: 25, format: "markdown" })),
+            loadSection("Recent conversations", () => runTool("get_account_conversations", { accountId, limit: 10 })),
+            loadSection("NPS responses from the last quarter", () => runTool("get_account_nps", { accountId, since: "90d", all: true, maxRecords: 100, format: "markdown" })),
+            loadSection("Projects", () => runTool("get_account_projects", { accountId, limit: 25, format: "markdown" }))
+          ])
+        ],
+        instructions: `Prepare a quarterly business review for ${name} using only the data above. Structure it as:\n` +
+          "1. Executive summary (3-4 sentences)\n" +
+          "2. Value delivered this quarter, citing notes, projects and conversations\n" +
+          "3. Health and adoption, with the weakest health score components and what drives them\n" +
+          "4. Customer sentiment from NPS feedback\n" +
+          "5. Risks and open issues, including overdue or open tasks\n" +
+          "6. Proposed goals and asks for next quarter\n" +
+          "Say explicitly where the data is missing or too thin to support a point."
+      };
+    }
+  },
+  {
+    name: "renewal_risk_review",
+    description: "Assess how likely an account is to renew, with the evidence and a mitigation plan",
+    arguments: [ACCOUNT_ID_ARGUMENT, WORKSPACE_ARGUMENT],
+    build: async ({ accountId }, { runTool }) => {
+      const details = await runTool("get_account_details", { accountId });
+      const name = accountNameFromDetails(details, accountId);
+
+      return {
+        description: `Renewal risk review for ${name}`,
+        sections: [
+          { title: `Account details: ${name}`, text: details },
+          ...await Promise.all([
+            loadSection("Health scores", () => runTool("get_account_health", { accountId })),
+            loadSection("NPS responses from the last six months", () => runTool("get_account_nps", { accountId, since: "6m", all: true, maxRecords: 100, format: "markdown" })),
+            loadSection("Recent conversations", () => runTool("get_account_conversations", { accountId, limit: 10 })),
+            loadSection("Open tasks", () => runTool("get_account_tasks", { accountId, status: "open", limit: 25, format: "markdown" })),
+            loadSection("Notes from the last quarter", () => runTool("get_account_notes", { accountId, since: "90d", all: true, maxRecords: 50, format: "markdown" }))
+          ])
+        ],
+        instructions: `Review the renewal risk of ${name} using only the data above.\n` +
+          "1. State the renewal date (nextRenewalDate) and how far away it is\n" +
+          "2. Rate the risk as Low, Medium or High\n" +
+          "3. List the evidence for the rating: health trends, usage, NPS, sentiment in conversations and notes, unresolved tasks\n" +
+          "4. Propose a mitigation plan with concrete next steps and owners, most urgent first\n" +
+          "Separate facts from the data from your own inferences."
+      };
+    }
+  },
+  {
+    name: "weekly_book_of_business",
+    description: "Weekly check-in across the accounts a CSM owns: health, renewals and what needs attention this week",
+    arguments: [
+      { name: "csmId", description: "Vitally ID of the CSM whose accounts to review", required: true },
+      { name: "traitKey", description: "Account trait to add as a column, e.g. vitally.custom.plan" },
+      WORKSPACE_ARGUMENT
+    ],
+    build: async ({ csmId, traitKey }, { workspace, control, runTool }) => {
+      const accounts = (await getCachedAccounts(workspace, control)).filter(account => account.csmId === csmId);
+      if (accounts.length === 0) {
+        throw new McpError(ErrorCode.InvalidParams, `No accounts owned by CSM '${csmId}' in workspace '${workspace.name}'`);
+      }
+
+      // The least healthy accounts get a closer look
+      const atRisk = [...accounts]
+        .sort((a, b) => (a.healthScore ?? Infinity) - (b.healthScore ?? Infinity))
+        .slice(0, PROMPT_ACCOUNT_LIMIT);
+
+      const book = renderList('markdown', {
+        key: "accounts",
+        summary: { csmId, accounts: accounts.length },
+        rows: accounts.map(account => ({
+          id: account.id,
+          name: account.name,
+          healthScore: account.healthScore,
+          mrr: account.mrr,
+          npsScore: account.npsScore,
+          nextRenewalDate: account.nextRenewalDate,
+          lastSeenTimestamp: account.lastSeenTimestamp,
+          ...(traitKey ? { [traitKey]: account.traits?.[traitKey] } : {})
+        }))
+      });
+
+      const closerLooks = await Promise.all(atRisk.flatMap(account => [
+        loadSection(`Open tasks: ${account.name}`, () => runTool("get_account_tasks", { accountId: account.id, status: "open", limit: 10, format: "markdown" })),
+        loadSection(`Notes from the last week: ${account.name}`, () => runTool("get_account_notes", { accountId: account.id, since: "7d", all: true, maxRecords: 20, format: "markdown" }))
+      ]));
+
+      return {
+        description: `Weekly book-of-business check-in for CSM ${csmId}`,
+        sections: [{ title: "Book of business", text: book }, ...closerLooks],
+        instructions: `Run a weekly book-of-business check-in for CSM ${csmId} using only the data above.\n` +
+          "1. Summarize the book: account count, total MRR and the spread of health scores\n" +
+          "2. Flag renewals in the next 90 days and their readiness\n" +
+          "3. List the accounts that need attention this week and why, most urgent first\n" +
+          "4. List overdue or open tasks worth chasing\n" +
+          "5. Suggest the three most valuable actions for this week" +
+          (accounts.length > atRisk.length
+            ? `\nOnly the ${atRisk.length} least healthy accounts have tasks and notes included; say so where it matters.`
+            : "")
+      };
+    }
+  },
+  {
+    name: "nps_detractors_summary",
+    description: "Summarize recent NPS detractors (scores 0-6) and their feedback, for one account or the accounts with the most detractors",
+    arguments: [
+      { name: "accountId", description: "Account: its Vitally ID, external ID, name or email domain (default: the accounts with the most detractors)" },
+      { name: "since", description: `Start of the period to cover (default: 90d): ${DATE_EXPRESSION_HELP}` },
+      WORKSPACE_ARGUMENT
+    ],
+    build: async ({ accountId, since = "90d" }, { workspace, control, runTool }) => {
+      const accounts = accountId
+        ? [{ id: await resolveAccountId(workspace, accountId, control), name: accountId }]
+        : (await getCachedAccounts(workspace, control))
+          .filter(account => (account.npsDetractorCount ?? 0) > 0)
+          .sort((a, b) => (b.npsDetractorCount ?? 0) - (a.npsDetractorCount ?? 0))
+          .slice(0, PROMPT_ACCOUNT_LIMIT);
+
+      const sections = await Promise.all(accounts.map(account =>
+        loadSection(`Detractors: ${account.name} (${account.id})`, async () => {
+          const { responses } = JSON.parse(await runTool("get_account_nps", { accountId: account.id, since, all: true, maxRecords: 500 }));
+          const detractors = responses.filter((response: VitallyNpsResponse) => response.score <= 6);
+          return renderList('markdown', {
+            key: "responses",
+            rows: detractors,
+            emptyMessage: "No detractors in this period"
+          });
+        })
+      ));
+
+      return {
+        description: accountId ? `NPS detractors for account ${accountId}` : "NPS detractors across accounts",
+        sections: sections.length > 0
+          ? sections
+          : [{ title: "Detractors", text: "_No accounts have NPS detractors_" }],
+        instructions: `Summarize the NPS detractors above (since ${since}).\n` +
+          "1. Group the feedback into recurring themes, with how many responses mention each and a representative quote\n" +
+          "2. Call out accounts with several detractors or particularly severe feedback\n" +
+          "3. Suggest follow-ups for each theme and who should own them" +
+          (accounts.length === PROMPT_ACCOUNT_LIMIT
+            ? `\nOnly the ${PROMPT_ACCOUNT_LIMIT} accounts with the most detractors are included.`
+            : "")
+      };
+    }
+  }
+];
+
+/**
+ * Handler that lists available prompts
+ */
+async function listPrompts() {
+  return {
+    prompts: PROMPTS.map(prompt => ({
+      name: prompt.name,
+      description: prompt.description,
+      arguments: prompt.arguments
+    }))
+  };
+}
+
+/**
+ * Handler for prompts/get: gathers the prompt's data through the tools and
+ * returns it as messages
+ */
+async function getPrompt(request: GetPromptRequest, control: FetchControl = {}) {
+  const prompt = PROMPTS.find(candidate => candidate.name === request.params.name);
+  if (!prompt) {
+    throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${request.params.name}`);
+  }
+
+  const args = validatePromptArguments(prompt, request.params.arguments);
+  const workspace = getWorkspace(args.workspace);
+
+  const runTool = async (name: string, toolArgs: Record<string, unknown>) => {
+    const result = await invokeTool({
+      method: "tools/call",
+      params: { name, arguments: { ...toolArgs, workspace: workspace.name } }
+    }, control);
+    return result.content
+      .map(item => item.type === "text" ? item.text : "")
+      .join("\n");
+  };
+
+  try {
+    return renderPrompt(await prompt.build(args, { workspace, control, runTool }));
+  } catch (error) {
+    throw toMcpError(error, `Failed to build prompt ${prompt.name}`);
+  }
+}
+
+// Custom trait definitions for completion, per workspace and model. Completion
+// runs on every keystroke, so definitions are only fetched every few minutes.
+const CUSTOM_FIELDS_TTL_MS = 5 * 60 * 1000;
+const customFieldsCache = new Map<string, { fetchedAt: number; fields: VitallyCustomField[] }>();
+
+async function getCustomFields(workspace: Workspace, model: string): Promise<VitallyCustomField[]> {
+  const key = `${workspace.name}:${model}`;
+  const cached = customFieldsCache.get(key);
+  if (cached && Date.now() - cached.fetchedAt < CUSTOM_FIELDS_TTL_MS) {
+    return cached.fields;
+  }
+
+  const fields = await callVitallyAPI<VitallyCustomField[]>(workspace, `/resources/customFields?model=${model}`);
+  customFieldsCache.set(key, { fetchedAt: Date.now(), fields: Array.isArray(fields) ? fields : [] });
+  return customFieldsCache.get(key)!.fields;
+}
+
+/**
+ * Completion candidates for each kind of argument, across all workspaces
+ */
+const COMPLETION_SOURCES: Record<string, () => Promise<CompletionCandidate[]>> = {
+  account: async () => {
+    const accounts = await Promise.all(listWorkspaces().map(workspace => getCachedAccounts(workspace)));
+    return accounts.flat().map(account => ({ value: account.id, label: account.name }));
+  },
+  csm: async () => {
+    const accounts = await Promise.all(listWorkspaces().map(workspace => getCachedAccounts(workspace)));
+    return accounts.flat()
+      .filter(account => account.csmId)
+      .map(account => ({ value: account.csmId! }));
+  },
+  traitKey: async () => {
+    const candidates: CompletionCandidate[] = [];
+    for (const workspace of listWorkspaces()) {
+      const fields = await getCustomFields(workspace, "accounts");
+      candidates.push(...fields.map(field => ({ value: field.path, label: field.label })));
+      // Traits set on accounts without a custom field definition
+      for (const account of await getCachedAccounts(workspace)) {
+        candidates.push(...Object.keys(account.traits || {}).map(key => ({ value: key })));
+      }
+    }
+    return candidates;
+  },
+  model: async () => TRAIT_MODELS.map(model => ({ value: model })),
+  workspace: async () => listWorkspaces().map(workspace => ({ value: workspace.name }))
+};
+
+// Which kind of value each prompt argument takes
+const PROMPT_ARGUMENT_SOURCES: Record<string, string> = {
+  accountId: "account",
+  csmId: "csm",
+  traitKey: "traitKey",
+  model: "model",
+  workspace: "workspace"
+};
+
+/**
+ * Which kind of value a resource template variable takes, e.g. `id` in
+ * `vitally://account/{id}/notes` is an account
+ */
+function resourceArgumentSource(uriTemplate: string, argument: string): string | undefined {
+  if (argument === "workspace" || argument === "model") {
+    return argument;
+  }
+  if (argument === "id") {
+    const resourceType = RESOURCE_TYPES.find(candidate => uriTemplate.endsWith(candidate.template));
+    return resourceType?.type === "account" ? "account" : undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Handler for completion/complete: suggests values for prompt arguments and
+ * resource template variables, ranked against what has been typed so far
+ */
+async function complete(request: CompleteRequest) {
+  const { ref, argument } = request.params;
+
+  let source: string | undefined;
+  if (ref.type === "ref/prompt") {
+    const prompt = PROMPTS.find(candidate => candidate.name === ref.name);
+    if (!prompt) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${ref.name}`);
+    }
+    if (prompt.arguments.some(candidate => candidate.name === argument.name)) {
+      source = PROMPT_ARGUMENT_SOURCES[argument.name];
+    }
+  } else {
+    source = resourceArgumentSource(String(ref.uri), argument.name);
+  }
+
+  if (!source) {
+    return { completion: { values: [], total: 0, hasMore: false } };
+  }
+
+  try {
+    return { completion: completeValues(argument.value, await COMPLETION_SOURCES[source]()) };
+  } catch (error) {
+    throw toMcpError(error, `Failed to complete ${argument.name}`);
+  }
+}
+
+/**
+ * Progress reporting and cancellation for one client request. Progress is
+ * sent as a notification per page fetched when the client asked for it
+ * with a progress token; pages are counted across the whole request.
+ */
+function requestControl(
+  server: Server,
+  request: { params?: { _meta?: { progressToken?: string | number } } },
+  signal: AbortSignal
+): FetchControl {
+  const progressToken = request.params?._meta?.progressToken;
+  let pages = 0;
+
+  return {
+    signal,
+    onPage: (endpoint, page, records) => {
+      pages++;
+      logger.debug(`Fetched page ${page} of ${endpoint} (${records} records so far)`);
+      if (progressToken !== undefined) {
+        server.notification({
+          method: "notifications/progress",
+          params: {
+            progressToken,
+            progress: pages,
+            message: `Fetched page ${page} of ${endpoint} (${records} records so far)`
+          }
+        }).catch(() => undefined);
+      }
+    }
+  };
+}
+
+/**
+ * Create an MCP server with capabilities for resources, prompts and tools.
+ * HTTP mode creates one per client session, stdio mode creates exactly one.
+ */
+function createServer(): Server {
+  const server = new Server(
+    {
+      name: "vitally-api",
+      version: "0.1.0",
+    },
+    {
+      capabilities: {
+        resources: { subscribe: true },
+        prompts: {},
+        tools: {},
+        logging: {},
+      },
+    }
+  );
+
+  // Server logs go to the client too, from the level it sets (warnings by default)
+  const logSink: LogSink = {
+    level: DEFAULT_CLIENT_LOG_LEVEL,
+    send: (level, name, data) => server.sendLoggingMessage({ level, logger: name, data })
+  };
+  const removeLogSink = addLogSink(logSink);
+
+  // Whatever a request logs goes back to this client only
+  const handle = <Request, Extra, Result>(handler: (request: Request, extra: Extra) => Result) =>
+    (request: Request, extra: Extra) => withLogSink(logSink, () => handler(request, extra));
+
+  server.setRequestHandler(ListResourcesRequestSchema, handle((request, extra) =>
+    listResources(request, requestControl(server, request, extra.signal))));
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, handle(listResourceTemplates));
+  server.setRequestHandler(ReadResourceRequestSchema, handle(readResource));
+  server.setRequestHandler(ListToolsRequestSchema, handle(listTools));
+  server.setRequestHandler(CallToolRequestSchema, handle((request, extra) =>
+    callTool(request, requestControl(server, request, extra.signal))));
+  server.setRequestHandler(ListPromptsRequestSchema, handle(listPrompts));
+  server.setRequestHandler(GetPromptRequestSchema, handle((request, extra) =>
+    getPrompt(request, requestControl(server, request, extra.signal))));
+  server.setRequestHandler(CompleteRequestSchema, handle(complete));
+
+  server.setRequestHandler(SetLevelRequestSchema, async (request) => {
+    logSink.level = request.params.level;
+    return {};
+  });
+
+  // Subscriptions are per client, and stop polling when it disconnects.
+  // Polls are started by the client's subscribe request, so what they log
+  // goes to that client too.
+  const poller = createSubscriptionPoller(
+    SUBSCRIPTION_OPTIONS,
+    snapshotResource,
+    uri => server.sendResourceUpdated({ uri })
+  );
+
+  server.onclose = () => {
+    poller.close();
+    removeLogSink();
+  };
+
+  server.setRequestHandler(SubscribeRequestSchema, handle(async (request) => {
+    try {
+      await poller.subscribe(request.params.uri);
+    } catch (error) {
+      throw toMcpError(error, `Cannot subscribe to ${request.params.uri}`);
+    }
+    return {};
+  }));
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    poller.unsubscribe(request.params.uri);
+    return {};
+  });
+
+  return server;
+}
+
+/**
+ * Read a `--name value` or `--name=value` flag from the command line
+ */
+function getCliFlag(name: string): string | undefined {
+  const args = process.argv.slice(2);
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === `--${name}`) {
+      return args[i + 1];
+    }
+    if (args[i].startsWith(`--${name}=`)) {
+      return args[i].slice(name.length + 3);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * What the doctor needs to know about how the server was started
+ */
+function doctorOptions(): DoctorOptions {
+  return {
+    envFile: envFileLoaded ? envPath : null,
+    replayingFrom: cassette?.mode === 'replay' ? cassette.file : null
+  };
+}
+
+/**
+ * `vitally-mcp doctor`: print a self-check report and exit non-zero if any
+ * check failed
+ */
+async function runDoctorCommand(): Promise<void> {
+  const report = await runDoctor(listWorkspaces(), (workspace, endpoint) => callVitallyAPI(workspace, endpoint), doctorOptions());
+  console.log(formatDoctorReport(report));
+  process.exit(report.ok ? 0 : 1);
+}
+
+/**
+ * `vitally-mcp call <tool> [args]`: run one tool and print its result.
+ * Exits non-zero if the tool fails.
+ */
+async function runCallCommand(argv: string[]): Promise<void> {
+  const [name, ...rest] = argv;
+  if (!name || name.startsWith('-')) {
+    throw new CliUsageError('Missing tool name. Run `vitally-mcp tools` to list them.');
+  }
+
+  const args = await parseToolArguments(rest, readStdin);
+  // There's no context window to fit on the command line, so size-limited
+  // tools return everything unless a limit was asked for
+  const tool = TOOLS.find(candidate => candidate.name === name);
+  if (tool?.inputSchema.properties.maxChars && args.maxChars === undefined) {
+    args.maxChars = Number.MAX_SAFE_INTEGER;
+  }
+
+  let result: ToolResult;
+  try {
+    result = await callTool({ method: "tools/call", params: { name, arguments: args } });
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+
+  const { output, continuation } = formatToolResult(result);
+  if (result.isError) {
+    console.error(output);
+    process.exit(1);
+  }
+  console.log(output);
+  if (continuation) {
+    console.error(continuation);
+    process.exit(3);
+  }
+  process.exit(0);
+}
+
+/**
+ * `vitally-mcp tools`: list the enabled tools and their arguments
+ */
+async function runToolsCommand(): Promise<void> {
+  const { tools } = await listTools();
+  for (const tool of tools) {
+    const required = tool.inputSchema.required || [];
+    const params = Object.keys(tool.inputSchema.properties)
+      .map(param => required.includes(param) ? `--${param}` : `[--${param}]`);
+    console.log(`${tool.name} ${params.join(' ')}`.trim());
+    console.log(`    ${tool.description}`);
+  }
+  process.exit(0);
+}
+
+/**
+ * Run a command line subcommand, if one was given. Returns false to start
+ * the MCP server instead.
+ */
+async function runSubcommand(argv: string[]): Promise<boolean> {
+  const [command, ...rest] = argv;
+  if (command === '--help' || command === '-h') {
+    console.log(CLI_USAGE);
+    process.exit(0);
+  }
+  if (!command || command.startsWith('-')) {
+    return false;
+  }
+
+  try {
+    switch (command) {
+      case 'call':
+        await runCallCommand(rest);
+        return true;
+      case 'tools':
+        await runToolsCommand();
+        return true;
+      case 'doctor':
+        await runDoctorCommand();
+        return true;
+      case 'help':
+        console.log(CLI_USAGE);
+        process.exit(0);
+      default:
+        throw new CliUsageError(`Unknown command '${command}'`);
+    }
+  } catch (error) {
+    if (error instanceof CliUsageError) {
+      console.error(`${error.message}\n\n${CLI_USAGE}`);
+      process.exit(2);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Start the server using the configured transport.
+ *
+ * stdio is the default. HTTP (SSE) mode is selected with `--transport http`
+ * (or `--http`) or `MCP_TRANSPORT=http`.
  */
 async function main() {
+  if (await runSubcommand(process.argv.slice(2))) {
+    return;
+  }
+
+  const transportType = (
+    getCliFlag('transport') ||
+    (process.argv.includes('--http') ? 'http' : undefined) ||
+    process.env.MCP_TRANSPORT ||
+    'stdio'
+  ).toLowerCase();
+
+  if (transportType === 'http' || transportType === 'sse') {
+    const port = parseInt(getCliFlag('port') || process.env.MCP_HTTP_PORT || '1337', 10);
+    if (isNaN(port)) {
+      throw new Error('Invalid HTTP port: use --port or MCP_HTTP_PORT with a number');
+    }
+
+    // Only from the environment, so the token doesn't show up in process lists
+    const token = process.env.MCP_HTTP_TOKEN;
+    if (!token) {
+      throw new Error('HTTP mode needs a bearer token: set MCP_HTTP_TOKEN to a long random secret, and have clients send it as "Authorization: Bearer <token>"');
+    }
+
+    await startHttpServer(createServer, {
+      port,
+      host: getCliFlag('host') || process.env.MCP_HTTP_HOST || '0.0.0.0',
+      token,
+      corsOrigin: getCliFlag('cors-origin') || process.env.MCP_CORS_ORIGIN || undefined
+    });
+    return;
+  }
+
+  if (transportType !== 'stdio') {
+    throw new Error(`Unknown transport '${transportType}': expected 'stdio' or 'http'`);
+  }
+
   const transport = new StdioServerTransport();
-  await server.connect(transport);
+  await createServer().connect(transport);
 }
 
 main().catch((error) => {
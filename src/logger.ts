@@ -0,0 +1,99 @@
+/**
+ * Copyright (c) 2024 John Jung
+ *
+ * Server logging.
+ *
+ * Every message is written to stderr as before, and is also sent to
+ * connected MCP clients as `notifications/message` when it is at or above
+ * the level each client asked for with `logging/setLevel`. Clients that
+ * never set a level get warnings and errors.
+ *
+ * Messages logged while handling a client's request (including the API
+ * calls, retries and cache syncs it causes) go to that client only, so in
+ * HTTP mode no one sees another user's accounts in their logs. Only
+ * process-level messages, such as the HTTP server starting to listen, go to
+ * every client. Secrets like HTTP session IDs are only written to stderr.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { LoggingLevel } from "@modelcontextprotocol/sdk/types.js";
+
+// From least to most severe
+const LEVELS: LoggingLevel[] = ['debug', 'info', 'notice', 'warning', 'error', 'critical', 'alert', 'emergency'];
+
+export const DEFAULT_CLIENT_LOG_LEVEL: LoggingLevel = 'warning';
+
+const LOGGER_NAME = 'vitally-mcp';
+
+// How each level is marked on stderr, matching the server's earlier output
+const STDERR_PREFIXES: Partial<Record<LoggingLevel, string>> = {
+  warning: 'Warning: ',
+  error: 'Error: '
+};
+
+/**
+ * A connected client that receives log messages
+ */
+export interface LogSink {
+  level: LoggingLevel;
+  send(level: LoggingLevel, logger: string, data: string): Promise<void>;
+}
+
+const sinks = new Set<LogSink>();
+
+// The client whose request is being handled, if any
+const requestSink = new AsyncLocalStorage<LogSink>();
+
+/**
+ * Start sending log messages to a client. Returns a function that stops.
+ */
+export function addLogSink(sink: LogSink): () => void {
+  sinks.add(sink);
+  return () => {
+    sinks.delete(sink);
+  };
+}
+
+function isAtLeast(level: LoggingLevel, threshold: LoggingLevel): boolean {
+  return LEVELS.indexOf(level) >= LEVELS.indexOf(threshold);
+}
+
+/**
+ * Handle a client's request so that everything logged while handling it,
+ * however deep, goes to that client only
+ */
+export function withLogSink<T>(sink: LogSink, handle: () => T): T {
+  return requestSink.run(sink, handle);
+}
+
+/**
+ * Log a message to stderr only, for details no client may see
+ */
+export function logToStderr(level: LoggingLevel, message: string): void {
+  console.error(`${STDERR_PREFIXES[level] || ''}${message}`);
+}
+
+/**
+ * Log a message to stderr and to the clients listening at this level: the
+ * client whose request is being handled, or every client outside requests
+ */
+export function log(level: LoggingLevel, message: string): void {
+  logToStderr(level, message);
+
+  const scoped = requestSink.getStore();
+  // A client that disconnected mid-request gets nothing
+  const targets = scoped ? [scoped].filter(sink => sinks.has(sink)) : sinks;
+  for (const sink of targets) {
+    if (isAtLeast(level, sink.level)) {
+      // A client that went away mid-send must not break the caller
+      sink.send(level, LOGGER_NAME, message).catch(() => undefined);
+    }
+  }
+}
+
+export const logger = {
+  debug: (message: string) => log('debug', message),
+  info: (message: string) => log('info', message),
+  warning: (message: string) => log('warning', message),
+  error: (message: string) => log('error', message)
+};
@@ -0,0 +1,98 @@
+/**
+ * Copyright (c) 2024 John Jung
+ *
+ * Declarative prompt registry.
+ *
+ * Prompts are ready-made customer-success workflows (QBR prep, renewal
+ * risk, ...). Each one gathers its data through the server's tools, embeds
+ * it as prompt messages and ends with the instructions, so every CSM runs
+ * the same workflow against the same data.
+ */
+
+import { ErrorCode, GetPromptResult, McpError, PromptMessage } from "@modelcontextprotocol/sdk/types.js";
+
+export interface PromptArgument {
+  name: string;
+  description: string;
+  required?: boolean;
+}
+
+/**
+ * A block of data embedded in a prompt, e.g. an account's recent notes
+ */
+export interface PromptSection {
+  title: string;
+  text: string;
+}
+
+export interface PromptContent {
+  description: string;
+  sections: PromptSection[];
+  // What the model should do with the data, sent as the final message
+  instructions: string;
+}
+
+export interface PromptDefinition<Context> {
+  name: string;
+  description: string;
+  arguments: PromptArgument[];
+  build: (args: Record<string, string>, context: Context) => Promise<PromptContent>;
+}
+
+/**
+ * Check prompt arguments against the prompt's declared arguments. Empty
+ * optional arguments are treated as not given.
+ */
+export function validatePromptArguments(
+  prompt: { name: string; arguments: PromptArgument[] },
+  args: Record<string, string> | undefined
+): Record<string, string> {
+  const errors: string[] = [];
+  const result: Record<string, string> = {};
+  const known = prompt.arguments.map(argument => argument.name);
+
+  for (const [name, value] of Object.entries(args || {})) {
+    if (!known.includes(name)) {
+      errors.push(`unknown argument ${name} (expected one of: ${known.join(', ')})`);
+    } else if (value.trim() !== '') {
+      result[name] = value.trim();
+    }
+  }
+
+  for (const argument of prompt.arguments) {
+    if (argument.required && result[argument.name] === undefined) {
+      errors.push(`${argument.name} is required`);
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new McpError(ErrorCode.InvalidParams, `Invalid arguments for prompt ${prompt.name}: ${errors.join('; ')}`);
+  }
+  return result;
+}
+
+/**
+ * Load one section of data. A section that fails to load is kept, with the
+ * error in place of the data, so one missing piece doesn't sink the prompt.
+ */
+export async function loadSection(title: string, load: () => Promise<string>): Promise<PromptSection> {
+  try {
+    return { title, text: await load() };
+  } catch (error) {
+    return { title, text: `_Could not load this data: ${error instanceof Error ? error.message : error}_` };
+  }
+}
+
+/**
+ * Turn built prompt content into the messages of a prompts/get result: one
+ * message per section of data, then the instructions
+ */
+export function renderPrompt(content: PromptContent): GetPromptResult {
+  const messages: PromptMessage[] = content.sections.map(section => ({
+    role: "user",
+    content: { type: "text", text: `## ${section.title}\n\n${section.text}` }
+  }));
+  messages.push({ role: "user", content: { type: "text", text: content.instructions } });
+
+  return { description: content.description, messages };
+}
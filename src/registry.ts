@@ -0,0 +1,202 @@
+/**
+ * Copyright (c) 2024 John Jung
+ *
+ * Declarative tool registry.
+ *
+ * Each tool is declared once with its name, description, JSON schema and
+ * handler. The tool listing, `search_tools` and the call dispatcher are all
+ * derived from the registry, and arguments are validated and coerced against
+ * the schema before a handler runs.
+ */
+
+import { CallToolResult, ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+
+export interface JsonSchema {
+  type?: 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array';
+  description?: string;
+  enum?: Array<string | number | boolean>;
+  default?: unknown;
+  minimum?: number;
+  maximum?: number;
+  items?: JsonSchema;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+}
+
+export interface ObjectSchema extends JsonSchema {
+  type: 'object';
+  properties: Record<string, JsonSchema>;
+}
+
+export type ToolResult = CallToolResult;
+
+export interface ToolDefinition<Args, Context> {
+  name: string;
+  description: string;
+  inputSchema: ObjectSchema;
+  // Whether the tool writes to Vitally (disabled in read-only mode)
+  mutating?: boolean;
+  handler: (args: Args, context: Context) => Promise<ToolResult>;
+}
+
+function describeValue(value: unknown): string {
+  return typeof value === 'string' ? `"${value}"` : JSON.stringify(value);
+}
+
+/**
+ * Validate a value against a schema, coercing it where the intent is clear
+ * (e.g. "10" for a number, "true" for a boolean, a JSON string for an
+ * object). Problems are collected into `errors` rather than thrown, so every
+ * bad argument is reported at once.
+ */
+function coerceValue(value: unknown, schema: JsonSchema, path: string, errors: string[]): unknown {
+  let result = value;
+
+  switch (schema.type) {
+    case 'string':
+      if (typeof value === 'number' || typeof value === 'boolean') {
+        result = String(value);
+      } else if (typeof value !== 'string') {
+        errors.push(`${path} must be a string (got ${describeValue(value)})`);
+        return undefined;
+      }
+      break;
+
+    case 'number':
+    case 'integer': {
+      const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+      if (typeof number !== 'number' || !Number.isFinite(number)) {
+        errors.push(`${path} must be a number (got ${describeValue(value)})`);
+        return undefined;
+      }
+      if (schema.type === 'integer' && !Number.isInteger(number)) {
+        errors.push(`${path} must be a whole number (got ${describeValue(value)})`);
+        return undefined;
+      }
+      if (schema.minimum !== undefined && number < schema.minimum) {
+        errors.push(`${path} must be at least ${schema.minimum} (got ${number})`);
+      }
+      if (schema.maximum !== undefined && number > schema.maximum) {
+        errors.push(`${path} must be at most ${schema.maximum} (got ${number})`);
+      }
+      result = number;
+      break;
+    }
+
+    case 'boolean':
+      if (value === 'true' || value === 'false') {
+        result = value === 'true';
+      } else if (typeof value !== 'boolean') {
+        errors.push(`${path} must be true or false (got ${describeValue(value)})`);
+        return undefined;
+      }
+      break;
+
+    case 'array': {
+      let array = value;
+      if (typeof value === 'string') {
+        try {
+          array = value.trim().startsWith('[') ? JSON.parse(value) : value.split(',').map(item => item.trim());
+        } catch {
+          // reported below
+        }
+      }
+      if (!Array.isArray(array)) {
+        errors.push(`${path} must be an array (got ${describeValue(value)})`);
+        return undefined;
+      }
+      result = schema.items
+        ? array.map((item, index) => coerceValue(item, schema.items!, `${path}[${index}]`, errors))
+        : array;
+      break;
+    }
+
+    case 'object': {
+      let object = value;
+      if (typeof value === 'string') {
+        try {
+          object = JSON.parse(value);
+        } catch {
+          // reported below
+        }
+      }
+      if (!object || typeof object !== 'object' || Array.isArray(object)) {
+        errors.push(`${path} must be an object (got ${describeValue(value)})`);
+        return undefined;
+      }
+      result = schema.properties
+        ? coerceObject(object as Record<string, unknown>, schema, `${path}.`, errors)
+        : object;
+      break;
+    }
+  }
+
+  if (schema.enum && !schema.enum.includes(result as string | number | boolean)) {
+    errors.push(`${path} must be one of ${schema.enum.map(describeValue).join(', ')} (got ${describeValue(value)})`);
+  }
+
+  return result;
+}
+
+function coerceObject(
+  object: Record<string, unknown>,
+  schema: JsonSchema,
+  prefix: string,
+  errors: string[]
+): Record<string, unknown> {
+  const properties = schema.properties || {};
+  const result: Record<string, unknown> = {};
+
+  for (const [key, value] of Object.entries(object)) {
+    const propertySchema = properties[key];
+    if (!propertySchema) {
+      if (schema.additionalProperties === true) {
+        result[key] = value;
+      } else {
+        errors.push(`unknown argument ${prefix}${key} (expected one of: ${Object.keys(properties).join(', ')})`);
+      }
+      continue;
+    }
+
+    // Optional arguments sent as null are treated as not given
+    if (value === null || value === undefined) {
+      continue;
+    }
+
+    result[key] = coerceValue(value, propertySchema, `${prefix}${key}`, errors);
+  }
+
+  for (const key of schema.required || []) {
+    const value = result[key];
+    if (value === undefined || (typeof value === 'string' && value.trim() === '')) {
+      errors.push(`${prefix}${key} is required`);
+    }
+  }
+
+  for (const [key, propertySchema] of Object.entries(properties)) {
+    if (result[key] === undefined && propertySchema.default !== undefined) {
+      result[key] = propertySchema.default;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Validate and coerce tool arguments against the tool's input schema.
+ * Throws an InvalidParams error listing every problem found.
+ */
+export function validateArguments(
+  toolName: string,
+  schema: ObjectSchema,
+  args: Record<string, unknown> | undefined
+): Record<string, unknown> {
+  const errors: string[] = [];
+  const result = coerceObject(args || {}, schema, '', errors);
+
+  if (errors.length > 0) {
+    throw new McpError(ErrorCode.InvalidParams, `Invalid arguments for ${toolName}: ${errors.join('; ')}`);
+  }
+  return result;
+}
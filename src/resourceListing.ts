@@ -0,0 +1,74 @@
+/**
+ * Copyright (c) 2024 John Jung
+ *
+ * Which accounts are listed as resources, and how many per page.
+ *
+ * Clients show resource lists in pickers, so a workspace with thousands of
+ * accounts is listed a page at a time and can be narrowed down to the
+ * accounts a team actually works with.
+ *
+ * Configured with:
+ *   VITALLY_RESOURCE_PAGE_SIZE  accounts per resources/list page (default: 100, maximum: 1000)
+ *   VITALLY_RESOURCE_STATUS     'active', 'churned' or 'activeOrChurned' (default: the cached accounts' status)
+ *   VITALLY_RESOURCE_SEGMENTS   comma-separated segment names or IDs; accounts in any of them are listed
+ *   VITALLY_RESOURCE_CSM_IDS    comma-separated CSM IDs; accounts owned by any of them are listed
+ */
+
+import { CachedAccount, accountMatchesStatus } from './accountCache.js';
+
+export interface ListableAccount extends CachedAccount {
+  csmId?: string;
+  segments?: Array<{ id: string; name: string }>;
+}
+
+export interface ResourceListingOptions {
+  pageSize: number;
+  status?: string;
+  // Lowercased segment names or IDs
+  segments: string[];
+  csmIds: string[];
+}
+
+const STATUSES = ['active', 'churned', 'activeOrChurned'];
+const MAX_PAGE_SIZE = 1000;
+
+function readList(value: string | undefined): string[] {
+  return (value || '').split(',').map(item => item.trim()).filter(Boolean);
+}
+
+/**
+ * Read resource listing settings from the environment
+ */
+export function resourceListingOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): ResourceListingOptions {
+  const pageSize = Number(env.VITALLY_RESOURCE_PAGE_SIZE || 100);
+
+  const status = env.VITALLY_RESOURCE_STATUS || undefined;
+  if (status && !STATUSES.includes(status)) {
+    throw new Error(`Invalid VITALLY_RESOURCE_STATUS '${status}': expected one of ${STATUSES.join(', ')}`);
+  }
+
+  return {
+    pageSize: Number.isInteger(pageSize) && pageSize > 0 ? Math.min(pageSize, MAX_PAGE_SIZE) : 100,
+    status,
+    segments: readList(env.VITALLY_RESOURCE_SEGMENTS).map(segment => segment.toLowerCase()),
+    csmIds: readList(env.VITALLY_RESOURCE_CSM_IDS)
+  };
+}
+
+/**
+ * Whether an account passes the configured status, segment and CSM filters
+ */
+export function isListedAccount(account: ListableAccount, options: ResourceListingOptions): boolean {
+  if (options.status && !accountMatchesStatus(account, options.status)) {
+    return false;
+  }
+  if (options.segments.length > 0 && !(account.segments || []).some(segment =>
+    options.segments.includes(segment.id.toLowerCase()) || options.segments.includes(segment.name.toLowerCase())
+  )) {
+    return false;
+  }
+  if (options.csmIds.length > 0 && !(account.csmId && options.csmIds.includes(account.csmId))) {
+    return false;
+  }
+  return true;
+}
@@ -0,0 +1,213 @@
+/**
+ * Copyright (c) 2024 John Jung
+ *
+ * Rate-limit-aware request scheduler for the Vitally API.
+ *
+ * Vitally allows 1000 requests per minute per API key. The scheduler keeps
+ * a token budget refilled at that rate, caps how many requests are in flight
+ * at once, follows the RateLimit-* / Retry-After headers sent back by the API
+ * and retries throttled or failed requests with jittered exponential backoff.
+ */
+
+import { logger } from './logger.js';
+
+/**
+ * The parts of an HTTP response the scheduler needs to look at
+ */
+export interface ScheduledResponse {
+  status: number;
+  headers: {
+    get(name: string): string | null;
+  };
+}
+
+export interface SchedulerOptions {
+  requestsPerMinute: number;
+  maxConcurrent: number;
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export interface RequestScheduler {
+  /**
+   * Run a request through the scheduler. `idempotent` requests are also
+   * retried on 5xx responses and network errors; all requests are retried
+   * on 429, since a throttled request was never processed.
+   */
+  run<R extends ScheduledResponse>(send: () => Promise<R>, idempotent: boolean): Promise<R>;
+}
+
+const RETRYABLE_STATUSES = new Set([500, 502, 503, 504]);
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Read scheduler settings from the environment
+ */
+export function schedulerOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): SchedulerOptions {
+  const read = (name: string, fallback: number) => {
+    const value = Number(env[name]);
+    return env[name] && Number.isFinite(value) && value >= 0 ? value : fallback;
+  };
+
+  return {
+    requestsPerMinute: Math.max(1, read('VITALLY_RATE_LIMIT_PER_MINUTE', 1000)),
+    maxConcurrent: Math.max(1, read('VITALLY_MAX_CONCURRENT_REQUESTS', 5)),
+    maxRetries: read('VITALLY_MAX_RETRIES', 4),
+    baseDelayMs: read('VITALLY_RETRY_BASE_DELAY_MS', 500),
+    maxDelayMs: read('VITALLY_RETRY_MAX_DELAY_MS', 30000)
+  };
+}
+
+/**
+ * Parse a Retry-After header, given either in seconds or as an HTTP date
+ */
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Parse a RateLimit-Reset header, given either as seconds until the window
+ * resets or as a Unix timestamp in seconds
+ */
+function parseRateLimitReset(value: string | null): number | undefined {
+  const seconds = Number(value);
+  if (!value || !Number.isFinite(seconds)) {
+    return undefined;
+  }
+  return seconds > 1e9
+    ? Math.max(0, seconds * 1000 - Date.now())
+    : Math.max(0, seconds * 1000);
+}
+
+function getHeader(response: ScheduledResponse, name: string): string | null {
+  return response.headers.get(name) ?? response.headers.get(`x-${name}`);
+}
+
+/**
+ * Create a scheduler. Use one per API key, since that is what Vitally
+ * rate limits on.
+ */
+export function createRequestScheduler(options: SchedulerOptions): RequestScheduler {
+  const capacity = options.requestsPerMinute;
+  const refillPerMs = capacity / 60000;
+
+  let tokens = capacity;
+  let lastRefill = Date.now();
+  let pausedUntil = 0;
+  let active = 0;
+  const waiting: Array<() => void> = [];
+
+  async function acquireSlot(): Promise<void> {
+    if (active < options.maxConcurrent) {
+      active++;
+      return;
+    }
+    // The releasing request hands its slot straight over to us
+    await new Promise<void>(resolve => waiting.push(resolve));
+  }
+
+  function releaseSlot(): void {
+    const next = waiting.shift();
+    if (next) {
+      next();
+    } else {
+      active--;
+    }
+  }
+
+  async function acquireToken(): Promise<void> {
+    for (;;) {
+      const now = Date.now();
+      if (pausedUntil > now) {
+        await sleep(pausedUntil - now);
+        continue;
+      }
+
+      tokens = Math.min(capacity, tokens + (now - lastRefill) * refillPerMs);
+      lastRefill = now;
+
+      if (tokens >= 1) {
+        tokens -= 1;
+        return;
+      }
+      await sleep(Math.ceil((1 - tokens) / refillPerMs));
+    }
+  }
+
+  /**
+   * Bring our budget in line with what the API says is left
+   */
+  function observeRateLimitHeaders(response: ScheduledResponse): void {
+    const remaining = Number(getHeader(response, 'ratelimit-remaining') ?? NaN);
+    if (!Number.isFinite(remaining)) {
+      return;
+    }
+
+    tokens = Math.min(tokens, remaining);
+    if (remaining <= 0) {
+      const resetMs = parseRateLimitReset(getHeader(response, 'ratelimit-reset'));
+      if (resetMs !== undefined) {
+        pausedUntil = Math.max(pausedUntil, Date.now() + resetMs);
+      }
+    }
+  }
+
+  function backoffDelay(attempt: number): number {
+    const ceiling = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt);
+    return Math.round(Math.random() * ceiling);
+  }
+
+  async function run<R extends ScheduledResponse>(send: () => Promise<R>, idempotent: boolean): Promise<R> {
+    for (let attempt = 0; ; attempt++) {
+      let response: R;
+
+      await acquireSlot();
+      try {
+        await acquireToken();
+        response = await send();
+      } catch (error) {
+        if (!idempotent || attempt >= options.maxRetries) {
+          throw error;
+        }
+        const delay = backoffDelay(attempt);
+        logger.warning(`Vitally request failed (${error}), retrying in ${delay}ms (attempt ${attempt + 1}/${options.maxRetries})`);
+        await sleep(delay);
+        continue;
+      } finally {
+        releaseSlot();
+      }
+
+      observeRateLimitHeaders(response);
+
+      const throttled = response.status === 429;
+      const retryable = throttled || (idempotent && RETRYABLE_STATUSES.has(response.status));
+      if (!retryable || attempt >= options.maxRetries) {
+        return response;
+      }
+
+      const delay = parseRetryAfter(response.headers.get('retry-after')) ?? backoffDelay(attempt);
+      if (throttled) {
+        // A 429 applies to the whole API key, so hold back every request
+        pausedUntil = Math.max(pausedUntil, Date.now() + delay);
+      }
+      logger.warning(`Vitally responded ${response.status}, retrying in ${delay}ms (attempt ${attempt + 1}/${options.maxRetries})`);
+      await sleep(delay);
+    }
+  }
+
+  return { run };
+}
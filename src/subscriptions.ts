@@ -0,0 +1,128 @@
+/**
+ * Copyright (c) 2024 John Jung
+ *
+ * Resource subscriptions.
+ *
+ * Vitally has no webhooks we can rely on, so subscribed resources are
+ * polled: each poll takes a snapshot of every subscribed URI and compares
+ * it with the previous one, and only a real difference sends a
+ * `notifications/resources/updated` to the client.
+ *
+ * Configured with:
+ *   VITALLY_SUBSCRIPTION_POLL_SECONDS  how often subscribed resources are polled (default: 60, minimum: 10)
+ */
+
+import { stableStringify } from './confirmations.js';
+import { logger } from './logger.js';
+
+export interface SubscriptionOptions {
+  pollIntervalMs: number;
+}
+
+export interface SubscriptionPoller {
+  /**
+   * Start watching a URI. The current state becomes the baseline, so the
+   * first notification is for the first change after subscribing.
+   */
+  subscribe(uri: string): Promise<void>;
+  unsubscribe(uri: string): void;
+  subscriptions(): string[];
+  // Stop polling, e.g. when the client disconnects
+  close(): void;
+}
+
+/**
+ * Takes a snapshot of a resource's current state
+ */
+export type SnapshotFunction = (uri: string) => Promise<unknown>;
+
+/**
+ * Tells the client a subscribed resource changed
+ */
+export type NotifyFunction = (uri: string) => Promise<void>;
+
+const MIN_POLL_SECONDS = 10;
+
+/**
+ * Read subscription settings from the environment
+ */
+export function subscriptionOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): SubscriptionOptions {
+  const seconds = Number(env.VITALLY_SUBSCRIPTION_POLL_SECONDS || 60);
+  return {
+    pollIntervalMs: Math.max(MIN_POLL_SECONDS, Number.isFinite(seconds) ? seconds : 60) * 1000
+  };
+}
+
+/**
+ * Create the poller for one client's subscriptions. Polling only runs
+ * while there is at least one subscription.
+ */
+export function createSubscriptionPoller(
+  options: SubscriptionOptions,
+  snapshot: SnapshotFunction,
+  notify: NotifyFunction
+): SubscriptionPoller {
+  // Last snapshot of each subscribed URI, serialized for comparison
+  const snapshots = new Map<string, string>();
+  let timer: NodeJS.Timeout | undefined;
+  let closed = false;
+
+  const schedule = () => {
+    if (!timer && !closed && snapshots.size > 0) {
+      timer = setTimeout(poll, options.pollIntervalMs);
+      // Don't keep the process alive just to poll
+      timer.unref();
+    }
+  };
+
+  const poll = async () => {
+    for (const uri of [...snapshots.keys()]) {
+      try {
+        const current = stableStringify(await snapshot(uri));
+        // The client may have unsubscribed while the snapshot was taken
+        if (closed || !snapshots.has(uri)) {
+          continue;
+        }
+        if (snapshots.get(uri) !== current) {
+          snapshots.set(uri, current);
+          await notify(uri);
+        }
+      } catch (error) {
+        // Keep the previous snapshot and try again on the next poll
+        logger.warning(`failed to poll subscribed resource ${uri}: ${error}`);
+      }
+    }
+
+    // Schedule the next poll only after this one finished, so slow polls never overlap
+    timer = undefined;
+    schedule();
+  };
+
+  return {
+    async subscribe(uri) {
+      const baseline = stableStringify(await snapshot(uri));
+      if (closed) {
+        return;
+      }
+      snapshots.set(uri, baseline);
+      schedule();
+    },
+
+    unsubscribe(uri) {
+      snapshots.delete(uri);
+    },
+
+    subscriptions() {
+      return [...snapshots.keys()];
+    },
+
+    close() {
+      closed = true;
+      snapshots.clear();
+      if (timer) {
+        clearTimeout(timer);
+        timer = undefined;
+      }
+    }
+  };
+}
@@ -0,0 +1,90 @@
+/**
+ * Copyright (c) 2024 John Jung
+ *
+ * Tool access policy: a global read-only mode plus per-tool allow/deny lists.
+ *
+ * Configured with environment variables:
+ *   VITALLY_READ_ONLY=true                        disable every tool that writes to Vitally
+ *   VITALLY_ALLOWED_TOOLS=search_*,get_account_*  only expose these tools
+ *   VITALLY_DENIED_TOOLS=create_account_note      never expose these tools
+ *
+ * or a JSON file named by VITALLY_TOOL_POLICY_FILE:
+ *   { "readOnly": true, "allow": ["get_*"], "deny": ["get_account_nps"] }
+ *
+ * Environment variables take precedence over the file. Tool names may use
+ * `*` as a wildcard. Deny always wins over allow.
+ */
+
+import * as fs from 'fs';
+
+export interface ToolPolicyConfig {
+  readOnly: boolean;
+  allow?: string[];
+  deny: string[];
+}
+
+export interface ToolPolicy {
+  config: ToolPolicyConfig;
+  /**
+   * Why a tool is disabled, or undefined when it is enabled
+   */
+  disabledReason(name: string, mutating: boolean): string | undefined;
+}
+
+function parseList(value: string | undefined): string[] | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  return value.split(',').map(item => item.trim()).filter(Boolean);
+}
+
+function parseBoolean(value: string | undefined): boolean | undefined {
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+  return ['1', 'true', 'yes', 'on'].includes(value.toLowerCase());
+}
+
+/**
+ * Read the tool policy from the policy file (if any) and the environment
+ */
+export function toolPolicyConfigFromEnv(env: NodeJS.ProcessEnv = process.env): ToolPolicyConfig {
+  let fileConfig: Partial<ToolPolicyConfig> = {};
+
+  if (env.VITALLY_TOOL_POLICY_FILE) {
+    try {
+      fileConfig = JSON.parse(fs.readFileSync(env.VITALLY_TOOL_POLICY_FILE, 'utf8'));
+    } catch (error) {
+      throw new Error(`Failed to read tool policy file ${env.VITALLY_TOOL_POLICY_FILE}: ${error}`);
+    }
+  }
+
+  return {
+    readOnly: parseBoolean(env.VITALLY_READ_ONLY) ?? fileConfig.readOnly === true,
+    allow: parseList(env.VITALLY_ALLOWED_TOOLS) ?? fileConfig.allow,
+    deny: parseList(env.VITALLY_DENIED_TOOLS) ?? fileConfig.deny ?? []
+  };
+}
+
+function matches(pattern: string, name: string): boolean {
+  const regex = new RegExp(`^${pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`);
+  return regex.test(name);
+}
+
+export function createToolPolicy(config: ToolPolicyConfig): ToolPolicy {
+  return {
+    config,
+    disabledReason(name: string, mutating: boolean): string | undefined {
+      if (config.deny.some(pattern => matches(pattern, name))) {
+        return 'it is on the server\'s deny list';
+      }
+      if (config.allow && !config.allow.some(pattern => matches(pattern, name))) {
+        return 'it is not on the server\'s allow list';
+      }
+      if (mutating && config.readOnly) {
+        return 'the server is in read-only mode';
+      }
+      return undefined;
+    }
+  };
+}
@@ -0,0 +1,111 @@
+/**
+ * Copyright (c) 2024 John Jung
+ *
+ * Snapshots of trait values taken before each trait update, so the update
+ * can be undone later by its operation id.
+ *
+ * Snapshots are kept in memory and appended to VITALLY_UNDO_LOG (default:
+ * ~/.vitally-mcp/undo.jsonl) so they survive restarts. Set it to 'off' to
+ * keep them in memory only.
+ */
+
+import { randomUUID } from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { logger } from './logger.js';
+
+export interface TraitSnapshot {
+  operationId: string;
+  timestamp: string;
+  workspace: string;
+  accountId: string;
+  // Value of each touched trait before the update; null if it didn't exist
+  previous: Record<string, unknown>;
+  // Values the update set
+  applied: Record<string, unknown>;
+  undoneAt?: string;
+}
+
+const snapshots = new Map<string, TraitSnapshot>();
+
+function undoLogPath(env: NodeJS.ProcessEnv = process.env): string | null {
+  const file = env.VITALLY_UNDO_LOG || path.join(os.homedir(), '.vitally-mcp', 'undo.jsonl');
+  return file.toLowerCase() === 'off' ? null : path.resolve(file);
+}
+
+function appendToLog(record: unknown): void {
+  const file = undoLogPath();
+  if (!file) {
+    return;
+  }
+
+  try {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.appendFileSync(file, `${JSON.stringify(record)}\n`);
+  } catch (error) {
+    logger.warning(`failed to write undo log ${file}: ${error}`);
+  }
+}
+
+/**
+ * Look a snapshot up in the undo log. Later lines for the same operation
+ * (e.g. marking it undone) are merged over earlier ones.
+ */
+function loadFromLog(operationId: string): TraitSnapshot | undefined {
+  const file = undoLogPath();
+  if (!file || !fs.existsSync(file)) {
+    return undefined;
+  }
+
+  let snapshot: TraitSnapshot | undefined;
+  for (const line of fs.readFileSync(file, 'utf8').split('\n')) {
+    if (!line.includes(operationId)) {
+      continue;
+    }
+    try {
+      const record = JSON.parse(line);
+      if (record.operationId === operationId) {
+        snapshot = { ...snapshot, ...record } as TraitSnapshot;
+      }
+    } catch {
+      continue; // a partially written line, e.g. after a crash
+    }
+  }
+  return snapshot;
+}
+
+/**
+ * Record the prior values of the traits an update is about to change
+ */
+export function saveTraitSnapshot(snapshot: Omit<TraitSnapshot, 'operationId' | 'timestamp'>): TraitSnapshot {
+  const saved: TraitSnapshot = {
+    operationId: randomUUID(),
+    timestamp: new Date().toISOString(),
+    ...snapshot
+  };
+
+  snapshots.set(saved.operationId, saved);
+  appendToLog(saved);
+  return saved;
+}
+
+export function findTraitSnapshot(operationId: string): TraitSnapshot | undefined {
+  let snapshot = snapshots.get(operationId);
+  if (!snapshot) {
+    snapshot = loadFromLog(operationId);
+    if (snapshot) {
+      snapshots.set(operationId, snapshot);
+    }
+  }
+  return snapshot;
+}
+
+export function markSnapshotUndone(operationId: string): void {
+  const snapshot = snapshots.get(operationId);
+  const undoneAt = new Date().toISOString();
+  if (snapshot) {
+    snapshot.undoneAt = undoneAt;
+  }
+  appendToLog({ operationId, undoneAt });
+}
@@ -0,0 +1,182 @@
+/**
+ * Copyright (c) 2024 John Jung
+ *
+ * Vitally workspace configuration.
+ *
+ * A single workspace is configured with the classic variables:
+ *   VITALLY_API_SUBDOMAIN, VITALLY_API_KEY, VITALLY_DATA_CENTER
+ *
+ * Several named workspaces can be configured together by listing them in
+ * VITALLY_WORKSPACES and prefixing each variable with the workspace name:
+ *   VITALLY_WORKSPACES=us,eu
+ *   VITALLY_US_API_SUBDOMAIN=acme
+ *   VITALLY_US_API_KEY=...
+ *   VITALLY_EU_API_KEY=...
+ *   VITALLY_EU_DATA_CENTER=EU
+ *   VITALLY_DEFAULT_WORKSPACE=us   # optional, defaults to the first listed
+ */
+
+export interface Workspace {
+  name: string;
+  subdomain: string;
+  apiKey?: string;
+  dataCenter: string;
+  baseUrl: string;
+  authHeader: string;
+  demoMode: boolean;
+  // Prefix of the variables configuring this workspace, e.g. 'VITALLY_EU_'
+  envPrefix: string;
+}
+
+const DEFAULT_WORKSPACE_NAME = 'default';
+const DEFAULT_SUBDOMAIN = 'nylas';
+
+/**
+ * Build a workspace from its raw settings, resolving the API base URL
+ * based on data center and falling back to demo mode without a key.
+ */
+function buildWorkspace(
+  name: string,
+  prefix: string,
+  subdomain: string | undefined,
+  apiKey: string | undefined,
+  dataCenter: string | undefined
+): Workspace {
+  const resolvedSubdomain = subdomain || DEFAULT_SUBDOMAIN;
+  const resolvedDataCenter = (dataCenter || 'US').toUpperCase();
+  const demoMode = !apiKey || apiKey === 'your_api_key_here';
+
+  return {
+    name,
+    subdomain: resolvedSubdomain,
+    apiKey,
+    dataCenter: resolvedDataCenter,
+    baseUrl: resolvedDataCenter === 'EU'
+      ? 'https://rest.vitally-eu.io'
+      : `https://${resolvedSubdomain}.rest.vitally.io`,
+    authHeader: `Basic ${Buffer.from(`${apiKey}:`).toString('base64')}`,
+    demoMode,
+    envPrefix: prefix
+  };
+}
+
+/**
+ * Environment variable prefix for a named workspace, e.g. 'eu' -> 'VITALLY_EU_'
+ */
+function envPrefix(name: string): string {
+  return `VITALLY_${name.toUpperCase().replace(/[^A-Z0-9]/g, '_')}_`;
+}
+
+/**
+ * Load all configured workspaces from the environment
+ */
+function loadWorkspaces(env: NodeJS.ProcessEnv): Map<string, Workspace> {
+  const workspaces = new Map<string, Workspace>();
+  const names = (env.VITALLY_WORKSPACES || '')
+    .split(',')
+    .map(name => name.trim().toLowerCase())
+    .filter(Boolean);
+
+  if (names.length === 0) {
+    workspaces.set(DEFAULT_WORKSPACE_NAME, buildWorkspace(
+      DEFAULT_WORKSPACE_NAME,
+      'VITALLY_',
+      env.VITALLY_API_SUBDOMAIN,
+      env.VITALLY_API_KEY,
+      env.VITALLY_DATA_CENTER
+    ));
+    return workspaces;
+  }
+
+  for (const name of names) {
+    const prefix = envPrefix(name);
+    workspaces.set(name, buildWorkspace(
+      name,
+      prefix,
+      env[`${prefix}API_SUBDOMAIN`],
+      env[`${prefix}API_KEY`],
+      env[`${prefix}DATA_CENTER`]
+    ));
+  }
+
+  return workspaces;
+}
+
+let workspaces: Map<string, Workspace> | undefined;
+let defaultWorkspaceName: string | undefined;
+
+/**
+ * Read the workspace configuration. Called once at startup, after the
+ * environment has been loaded.
+ */
+export function initWorkspaces(env: NodeJS.ProcessEnv = process.env): Workspace[] {
+  workspaces = loadWorkspaces(env);
+
+  const requestedDefault = env.VITALLY_DEFAULT_WORKSPACE?.trim().toLowerCase();
+  if (requestedDefault && !workspaces.has(requestedDefault)) {
+    throw new Error(`VITALLY_DEFAULT_WORKSPACE '${requestedDefault}' is not listed in VITALLY_WORKSPACES`);
+  }
+  defaultWorkspaceName = requestedDefault || workspaces.keys().next().value;
+
+  return listWorkspaces();
+}
+
+/**
+ * All configured workspaces, default first
+ */
+export function listWorkspaces(): Workspace[] {
+  if (!workspaces) {
+    throw new Error('Workspaces have not been initialised');
+  }
+  return [...workspaces.values()].sort((a, b) =>
+    Number(b.name === defaultWorkspaceName) - Number(a.name === defaultWorkspaceName)
+  );
+}
+
+/**
+ * Look up a workspace by name, or the default workspace when no name is given
+ */
+export function getWorkspace(name?: string): Workspace {
+  if (!workspaces || !defaultWorkspaceName) {
+    throw new Error('Workspaces have not been initialised');
+  }
+
+  const key = (name || defaultWorkspaceName).trim().toLowerCase();
+  const workspace = workspaces.get(key);
+  if (!workspace) {
+    throw new Error(`Unknown workspace '${name}'. Configured workspaces: ${[...workspaces.keys()].join(', ')}`);
+  }
+  return workspace;
+}
+
+/**
+ * Whether a workspace with the given name is configured
+ */
+export function hasWorkspace(name: string): boolean {
+  return !!workspaces?.has(name.toLowerCase());
+}
+
+/**
+ * Resource URI for an account, qualified with its workspace
+ */
+export function accountUri(workspace: Workspace, accountId: string): string {
+  return `vitally://${workspace.name}/account/${accountId}`;
+}
+
+/**
+ * Split a `vitally://{workspace}/{type}/{id}[/{subresource}]` resource URI
+ * into its parts. URIs without a workspace (`vitally://{type}/{id}`) use
+ * the default one.
+ */
+export function parseResourceUri(uri: string): { workspace: Workspace; type: string; id: string; subresource?: string } {
+  const url = new URL(uri);
+  const segments = url.pathname.replace(/^\//, '').split('/').filter(Boolean).map(decodeURIComponent);
+
+  if (hasWorkspace(url.hostname)) {
+    const [type, id, subresource] = segments;
+    return { workspace: getWorkspace(url.hostname), type, id, subresource };
+  }
+
+  const [id, subresource] = segments;
+  return { workspace: getWorkspace(), type: url.hostname, id, subresource };
+}